@@ -91,6 +91,11 @@ export const removeAuthToken = (): void => {
 };
 
 export const isTokenExpired = (token: string): boolean => {
+  // Encrypted tokens (JWE) cannot be read in the browser; the API rejects them once expired
+  if (token.split('.').length === 5) {
+    return false;
+  }
+
   try {
     const payload = JSON.parse(atob(token.split('.')[1]));
     const exp = payload.exp * 1000; // Convert to milliseconds
@@ -0,0 +1,74 @@
+import request from 'supertest';
+import * as jose from 'jose';
+import { jwtService } from '../services/jwtService';
+import { clientService } from '../services/clientService';
+import { basicAuth, createTestApp, initializeTestKeys } from './helpers/testApp';
+
+const app = createTestApp();
+
+const generateDemoToken = async (body: Record<string, unknown> = {}): Promise<string> => {
+  const response = await request(app).post('/api/token/generate').send(body).expect(200);
+  return response.body.data.access_token;
+};
+
+describe('demo tokens', () => {
+  let clientSecret: string;
+
+  beforeAll(async () => {
+    await initializeTestKeys();
+    ({ clientSecret } = await clientService.registerClient({ clientId: 'resource-server' }) as { clientSecret: string });
+  });
+
+  it('are issued by the demo issuer', async () => {
+    const token = await generateDemoToken({ scope: 'admin', roles: ['support'] });
+
+    const claims = jose.decodeJwt(token);
+    expect(claims.iss).toBe('https://auth.test/demo');
+    expect(claims.sub).toBe('demo-user-id');
+    expect(claims.roles).toEqual(['support']);
+  });
+
+  it('are accepted by the demo validation endpoint', async () => {
+    const token = await generateDemoToken();
+
+    const response = await request(app).post('/api/token/validate').send({ token }).expect(200);
+    expect(response.body.data.valid).toBe(true);
+  });
+
+  it('are rejected by authenticated endpoints', async () => {
+    const token = await generateDemoToken({ scope: 'admin', roles: ['support'] });
+
+    await request(app).get('/api/auth/profile').set('Authorization', `Bearer ${token}`).expect(401);
+    await request(app).get('/userinfo').set('Authorization', `Bearer ${token}`).expect(401);
+
+    const validation = await request(app).post('/api/auth/validate').send({ token }).expect(401);
+    expect(validation.body.data.valid).toBe(false);
+  });
+
+  it('are reported inactive by introspection', async () => {
+    const token = await generateDemoToken({ scope: 'orders:write' });
+
+    const response = await request(app)
+      .post('/token/introspect')
+      .set('Authorization', basicAuth('resource-server', clientSecret))
+      .type('form')
+      .send({ token })
+      .expect(200);
+    expect(response.body).toEqual({ active: false });
+  });
+
+  it('do not make verification accept demo tokens by default', async () => {
+    const token = await generateDemoToken();
+
+    await expect(jwtService.verifyToken(token)).rejects.toThrow();
+    await expect(jwtService.verifyTokenClaims(token, { anyAudience: true })).rejects.toThrow();
+    await expect(jwtService.verifyToken(token, { allowDemo: true })).resolves.toMatchObject({ sub: 'demo-user-id' });
+  });
+
+  it('leave tokens from our own issuer valid', async () => {
+    const { access_token } = await jwtService.generateToken({ sub: 'user-1', username: 'alice', email: 'alice@example.com' });
+
+    const response = await request(app).post('/api/auth/validate').send({ token: access_token }).expect(200);
+    expect(response.body.data.payload.iss).toBe('https://auth.test');
+  });
+});
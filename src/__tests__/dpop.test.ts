@@ -0,0 +1,216 @@
+import express from 'express';
+import request from 'supertest';
+import * as jose from 'jose';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createHash, randomUUID } from 'crypto';
+import { authenticateToken } from '../middleware/auth';
+import { dpopService, DPoPService } from '../services/dpopService';
+import { jwtService } from '../services/jwtService';
+import { clientService } from '../services/clientService';
+import { basicAuth, createTestApp, initializeTestKeys } from './helpers/testApp';
+
+interface ProofKey {
+  privateKey: jose.KeyLike;
+  jwk: jose.JWK;
+  jkt: string;
+}
+
+const createProofKey = async (): Promise<ProofKey> => {
+  const { privateKey, publicKey } = await jose.generateKeyPair('ES256');
+  const jwk = await jose.exportJWK(publicKey);
+  return { privateKey, jwk, jkt: await jose.calculateJwkThumbprint(jwk, 'sha256') };
+};
+
+const createProof = (
+  key: ProofKey,
+  claims: { htm: string; htu: string; ath?: string; nonce?: string; iat?: number },
+  header: Partial<jose.JWTHeaderParameters> = {}
+): Promise<string> =>
+  new jose.SignJWT({ jti: randomUUID(), ...claims })
+    .setProtectedHeader({ alg: 'ES256', typ: 'dpop+jwt', jwk: key.jwk, ...header })
+    .setIssuedAt(claims.iat)
+    .sign(key.privateKey);
+
+const accessTokenHash = (token: string): string => createHash('sha256').update(token).digest('base64url');
+
+const RESOURCE_URL = 'https://api.example.com/orders';
+const context = { method: 'GET', urls: [RESOURCE_URL] };
+
+describe('DPoP proof validation', () => {
+  let key: ProofKey;
+
+  beforeAll(async () => {
+    key = await createProofKey();
+  });
+
+  it('returns the thumbprint of the proof key', async () => {
+    const proof = await createProof(key, { htm: 'GET', htu: `${RESOURCE_URL}?page=2` });
+
+    await expect(dpopService.verifyProof(proof, context)).resolves.toBe(key.jkt);
+  });
+
+  it('rejects proofs that are not DPoP JWTs signed with an asymmetric key', async () => {
+    const wrongType = await createProof(key, { htm: 'GET', htu: RESOURCE_URL }, { typ: 'JWT' });
+    await expect(dpopService.verifyProof(wrongType, context)).rejects.toThrow('DPoP proof must have typ dpop+jwt');
+
+    const symmetric = await new jose.SignJWT({ jti: randomUUID(), htm: 'GET', htu: RESOURCE_URL })
+      .setProtectedHeader({ alg: 'HS256', typ: 'dpop+jwt' })
+      .setIssuedAt()
+      .sign(new TextEncoder().encode('a-shared-secret-that-is-long-enough'));
+    await expect(dpopService.verifyProof(symmetric, context)).rejects.toThrow('DPoP proof alg must be one of');
+
+    const privateJwk = await jose.exportJWK(key.privateKey);
+    const leaked = await createProof(key, { htm: 'GET', htu: RESOURCE_URL }, { jwk: privateJwk });
+    await expect(dpopService.verifyProof(leaked, context)).rejects.toThrow('DPoP proof must carry a public jwk header');
+  });
+
+  it('rejects proofs signed with a key other than the one in the header', async () => {
+    const other = await createProofKey();
+    const proof = await createProof(key, { htm: 'GET', htu: RESOURCE_URL }, { jwk: other.jwk });
+
+    await expect(dpopService.verifyProof(proof, context)).rejects.toThrow('DPoP proof signature is invalid');
+  });
+
+  it('rejects proofs for another method or URL', async () => {
+    const post = await createProof(key, { htm: 'POST', htu: RESOURCE_URL });
+    await expect(dpopService.verifyProof(post, context)).rejects.toThrow('DPoP proof htm does not match the request method');
+
+    const otherUrl = await createProof(key, { htm: 'GET', htu: 'https://api.example.com/refunds' });
+    await expect(dpopService.verifyProof(otherUrl, context)).rejects.toThrow('DPoP proof htu does not match the request URL');
+  });
+
+  it('rejects stale proofs', async () => {
+    const proof = await createProof(key, { htm: 'GET', htu: RESOURCE_URL, iat: Math.floor(Date.now() / 1000) - 10 * 60 });
+
+    await expect(dpopService.verifyProof(proof, context)).rejects.toThrow('DPoP proof iat is missing or outside the accepted window');
+  });
+
+  it('rejects a proof that is replayed', async () => {
+    const proof = await createProof(key, { htm: 'GET', htu: RESOURCE_URL });
+
+    await dpopService.verifyProof(proof, context);
+    await expect(dpopService.verifyProof(proof, context)).rejects.toThrow('DPoP proof has already been used');
+  });
+
+  it('binds proofs to the access token through ath', async () => {
+    const proof = await createProof(key, { htm: 'GET', htu: RESOURCE_URL, ath: accessTokenHash('token-a') });
+
+    await expect(dpopService.verifyProof(proof, { ...context, accessToken: 'token-b' }))
+      .rejects.toThrow('DPoP proof ath does not match the access token');
+  });
+
+  it('requires the server nonce when configured to', async () => {
+    process.env.DPOP_REQUIRE_NONCE = 'true';
+    const service = new DPoPService();
+    delete process.env.DPOP_REQUIRE_NONCE;
+
+    const withoutNonce = await createProof(key, { htm: 'GET', htu: RESOURCE_URL });
+    await expect(service.verifyProof(withoutNonce, context)).rejects.toMatchObject({ errorCode: 'use_dpop_nonce' });
+
+    const withNonce = await createProof(key, { htm: 'GET', htu: RESOURCE_URL, nonce: service.getNonce() });
+    await expect(service.verifyProof(withNonce, context)).resolves.toBe(key.jkt);
+  });
+});
+
+describe('DPoP-bound access tokens', () => {
+  let server: Server;
+  let baseUrl: string;
+  let key: ProofKey;
+
+  beforeAll(async () => {
+    await initializeTestKeys();
+    key = await createProofKey();
+
+    const app = createTestApp();
+    const resource = express();
+    resource.get('/resource', authenticateToken, (req, res) => {
+      res.json({ sub: req.user!.sub });
+    });
+    server = resource.use(app).listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  const boundToken = async (jkt: string): Promise<string> => {
+    const { access_token } = await jwtService.generateToken({ sub: 'user-1' }, { confirmation: { jkt } });
+    return access_token;
+  };
+
+  it('accepts the token with a proof from the key it is bound to', async () => {
+    const token = await boundToken(key.jkt);
+    const proof = await createProof(key, { htm: 'GET', htu: `${baseUrl}/resource`, ath: accessTokenHash(token) });
+
+    const response = await request(server).get('/resource').set('Authorization', `DPoP ${token}`).set('DPoP', proof).expect(200);
+    expect(response.body.sub).toBe('user-1');
+  });
+
+  it('refuses the token as a bearer token or without a proof', async () => {
+    const token = await boundToken(key.jkt);
+
+    const bearer = await request(server).get('/resource').set('Authorization', `Bearer ${token}`).expect(401);
+    expect(bearer.headers['www-authenticate']).toContain('error="invalid_token"');
+
+    const withoutProof = await request(server).get('/resource').set('Authorization', `DPoP ${token}`).expect(401);
+    expect(withoutProof.body.error).toBe('DPoP proof is required');
+  });
+
+  it('refuses proofs from another key or for another token', async () => {
+    const token = await boundToken(key.jkt);
+
+    const other = await createProofKey();
+    const otherKeyProof = await createProof(other, { htm: 'GET', htu: `${baseUrl}/resource`, ath: accessTokenHash(token) });
+    const otherKey = await request(server).get('/resource').set('Authorization', `DPoP ${token}`).set('DPoP', otherKeyProof).expect(401);
+    expect(otherKey.body.error).toBe('DPoP proof key does not match the key the token is bound to');
+
+    const otherTokenProof = await createProof(key, { htm: 'GET', htu: `${baseUrl}/resource`, ath: accessTokenHash('another-token') });
+    const otherToken = await request(server).get('/resource').set('Authorization', `DPoP ${token}`).set('DPoP', otherTokenProof).expect(401);
+    expect(otherToken.body.error).toBe('DPoP proof ath does not match the access token');
+  });
+
+  it('are issued by the token endpoint for requests with a proof', async () => {
+    const { clientSecret } = await clientService.registerClient({ clientId: 'dpop-client' });
+    const proof = await createProof(key, { htm: 'POST', htu: `${baseUrl}/token` });
+
+    const response = await request(server)
+      .post('/token')
+      .set('Authorization', basicAuth('dpop-client', clientSecret!))
+      .set('DPoP', proof)
+      .type('form')
+      .send({ grant_type: 'client_credentials' })
+      .expect(200);
+
+    expect(response.body.token_type).toBe('DPoP');
+    expect(jose.decodeJwt(response.body.access_token).cnf).toEqual({ jkt: key.jkt });
+  });
+
+  it('can only be exchanged with a proof from the key they are bound to', async () => {
+    const { clientSecret } = await clientService.registerClient({
+      clientId: 'dpop-gateway',
+      grantTypes: ['urn:ietf:params:oauth:grant-type:token-exchange'],
+      exchangeAudiences: ['orders-api']
+    });
+    const token = await boundToken(key.jkt);
+    const exchange = (proof?: string) => {
+      const pending = request(server).post('/token').set('Authorization', basicAuth('dpop-gateway', clientSecret!));
+      return (proof ? pending.set('DPoP', proof) : pending).type('form').send({
+        grant_type: 'urn:ietf:params:oauth:grant-type:token-exchange',
+        subject_token: token,
+        subject_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+        audience: 'orders-api'
+      });
+    };
+
+    const withoutProof = await exchange().expect(400);
+    expect(withoutProof.body.error_description).toBe('subject_token is bound to a key the request does not prove possession of');
+
+    const other = await createProofKey();
+    await exchange(await createProof(other, { htm: 'POST', htu: `${baseUrl}/token` })).expect(400);
+
+    const response = await exchange(await createProof(key, { htm: 'POST', htu: `${baseUrl}/token` })).expect(200);
+    expect(jose.decodeJwt(response.body.access_token).cnf).toEqual({ jkt: key.jkt });
+  });
+});
@@ -0,0 +1,9 @@
+// Services read their configuration when they are constructed, so this runs
+// before any test file imports them
+process.env.NODE_ENV = 'test';
+process.env.SKIP_DATABASE = 'true';
+process.env.KEY_STORE = 'memory';
+process.env.JWT_ISSUER = 'https://auth.test';
+process.env.JWT_AUDIENCE = 'test-api';
+process.env.ADMIN_API_KEY = 'test-admin-key';
+process.env.BCRYPT_ROUNDS = '4';
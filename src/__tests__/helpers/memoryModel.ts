@@ -0,0 +1,66 @@
+import { Types } from 'mongoose';
+
+type Document = Record<string, any>;
+type Filter = Record<string, any>;
+
+interface Update {
+  $set?: Record<string, unknown>;
+  $setOnInsert?: Record<string, unknown>;
+}
+
+const matches = (document: Document, filter: Filter): boolean =>
+  Object.entries(filter).every(([field, condition]) => {
+    if (field === '$or') {
+      return condition.some((alternative: Filter) => matches(document, alternative));
+    }
+    if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('$ne' in condition) {
+        return document[field] !== condition.$ne;
+      }
+      if ('$exists' in condition) {
+        return (document[field] !== undefined) === condition.$exists;
+      }
+    }
+    return document[field] === condition;
+  });
+
+// Resolves like a mongoose query, with or without .lean()
+const query = <T>(result: T) => Object.assign(Promise.resolve(result), { lean: async () => result });
+
+/**
+ * In-memory stand-in for a mongoose model, supporting the queries the services
+ * make (equality, $ne, $exists and $or filters; $set and $setOnInsert updates), so
+ * database-backed flows can be tested without MongoDB. Use it from a
+ * jest.mock factory.
+ */
+export const createMemoryModel = () => {
+  const documents: Document[] = [];
+  const find = (filter: Filter) => documents.filter(document => matches(document, filter));
+
+  return {
+    documents,
+    create: async (document: Document) => {
+      const stored = { _id: new Types.ObjectId().toString(), ...document };
+      documents.push(stored);
+      return stored;
+    },
+    findOne: (filter: Filter) => query(find(filter)[0] || null),
+    findById: (id: string) => query(find({ _id: id })[0] || null),
+    exists: async (filter: Filter) => find(filter)[0] ? { _id: find(filter)[0]._id } : null,
+    findOneAndUpdate: async (filter: Filter, update: Update) => {
+      const document = find(filter)[0];
+      return document ? Object.assign(document, update.$set) : null;
+    },
+    updateOne: async (filter: Filter, update: Update, options: { upsert?: boolean } = {}) => {
+      const document = find(filter)[0];
+      if (document) {
+        Object.assign(document, update.$set);
+      } else if (options.upsert) {
+        documents.push({ ...filter, ...update.$setOnInsert, ...update.$set });
+      }
+    },
+    updateMany: async (filter: Filter, update: Update) => {
+      find(filter).forEach(document => Object.assign(document, update.$set));
+    }
+  };
+};
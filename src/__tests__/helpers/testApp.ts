@@ -0,0 +1,43 @@
+import express from 'express';
+import { keyService } from '../../services/keyService';
+import { errorHandler, notFoundHandler } from '../../middleware/errorHandler';
+import authRoutes from '../../routes/authRoutes';
+import jwksRoutes from '../../routes/jwksRoutes';
+import tokenRoutes from '../../routes/tokenRoutes';
+import oauthRoutes from '../../routes/oauthRoutes';
+
+export const ADMIN_KEY = 'test-admin-key';
+
+/**
+ * The API routes mounted as in src/index.ts, without starting a server
+ */
+export const createTestApp = (): express.Application => {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  app.use('/api/token', tokenRoutes);
+  app.use('/api/auth', authRoutes);
+  app.use('/api', jwksRoutes);
+  app.use(oauthRoutes);
+  app.use('/token', tokenRoutes);
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+  return app;
+};
+
+/**
+ * Create the in-memory keyring once per test file
+ */
+export const initializeTestKeys = async (): Promise<void> => {
+  if (keyService.getKeys().length === 0) {
+    await keyService.initializeKeys();
+  }
+};
+
+/**
+ * HTTP Basic credentials for a client
+ */
+export const basicAuth = (clientId: string, clientSecret: string): string =>
+  `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
@@ -0,0 +1,65 @@
+import { KeyService } from '../services/keyService';
+import { KeyConflictError, KeyStore } from '../services/keyStore';
+
+// Every KeyService in this file is a replica sharing one in-memory key store
+jest.mock('../services/keyStore', () => {
+  const actual = jest.requireActual('../services/keyStore');
+  const store = new actual.MemoryKeyStore();
+  return { ...actual, createKeyStore: () => store };
+});
+
+const { createKeyStore } = jest.requireMock('../services/keyStore');
+const store: KeyStore = createKeyStore();
+
+describe('keyring shared by several replicas', () => {
+  let replicaA: KeyService;
+  let replicaB: KeyService;
+
+  beforeAll(async () => {
+    replicaA = new KeyService();
+    replicaB = new KeyService();
+    await replicaA.initializeKeys();
+    await replicaB.initializeKeys();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses changes to a key another replica revoked', async () => {
+    const { kid } = await replicaA.stageKey();
+    await replicaB.revokeKey(kid, 'compromised');
+
+    await expect(replicaA.activateKey(kid)).rejects.toThrow(`Key ${kid} is revoked, only pending keys can be activated`);
+
+    const stored = (await store.load())!.find(key => key.kid === kid)!;
+    await expect(store.saveKey({ ...stored, status: 'active' }, ['pending'])).rejects.toThrow(KeyConflictError);
+  });
+
+  it('keeps revocations when a stale keyring is saved', async () => {
+    const { kid } = await replicaA.stageKey();
+    const stale = (await store.load())!;
+    await replicaB.revokeKey(kid);
+
+    await store.save(stale);
+
+    expect((await store.load())!.find(key => key.kid === kid)!.status).toBe('revoked');
+  });
+
+  it('stops trusting a revoked key once the keyring is reloaded', async () => {
+    const { kid: pendingKid } = await replicaA.stageKey();
+    await replicaB.refreshKeys(true);
+    const { kid } = replicaB.getSigningKey();
+    const { replacement } = await replicaA.revokeKey(kid);
+
+    expect(replacement!.kid).toBe(pendingKid);
+    expect(replicaB.getVerificationKey(kid)).toBeDefined();
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 31 * 1000);
+    await replicaB.refreshKeys();
+
+    expect(replicaB.getVerificationKey(kid)).toBeUndefined();
+    expect(replicaB.getSigningKey().kid).toBe(pendingKid);
+  });
+});
@@ -0,0 +1,127 @@
+import request from 'supertest';
+import { createHash, randomBytes } from 'crypto';
+import { authorizationCodeService } from '../services/authorizationCodeService';
+import { clientService } from '../services/clientService';
+import { revocationService } from '../services/revocationService';
+import { database } from '../utils/database';
+import { createTestApp } from './helpers/testApp';
+
+// The oauthclients, authorizationcodes and revokedtokens collections, kept in memory
+jest.mock('../models/OAuthClient', () => ({
+  OAuthClientModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/AuthorizationCode', () => ({
+  AuthorizationCodeModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/RevokedToken', () => ({
+  RevokedTokenModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+
+const app = createTestApp();
+
+const REDIRECT_URI = 'https://app.example.com/callback';
+
+const challengeFor = (verifier: string): string => createHash('sha256').update(verifier).digest('base64url');
+
+const issueCode = async (codeVerifier: string, clientId: string = 'spa'): Promise<string> =>
+  authorizationCodeService.createCode({
+    clientId,
+    userId: 'user-1',
+    redirectUri: REDIRECT_URI,
+    codeChallenge: challengeFor(codeVerifier),
+    scope: 'openid',
+    authTime: new Date()
+  });
+
+describe('authorization code flow with PKCE', () => {
+  let verifier: string;
+
+  beforeAll(async () => {
+    jest.spyOn(database, 'isDbConnected').mockReturnValue(true);
+    await clientService.registerClient({ clientId: 'spa', isPublic: true, redirectUris: [REDIRECT_URI], scopes: ['openid'] });
+  });
+
+  beforeEach(() => {
+    verifier = randomBytes(32).toString('base64url');
+  });
+
+  it('redeems a code with the verifier for its challenge', async () => {
+    const code = await issueCode(verifier);
+
+    await expect(authorizationCodeService.redeem(code, 'spa', REDIRECT_URI, verifier))
+      .resolves.toMatchObject({ clientId: 'spa', userId: 'user-1', scope: 'openid' });
+  });
+
+  it('rejects a code redeemed with another verifier', async () => {
+    const code = await issueCode(verifier);
+
+    await expect(authorizationCodeService.redeem(code, 'spa', REDIRECT_URI, randomBytes(32).toString('base64url')))
+      .rejects.toThrow('code_verifier does not match the code_challenge');
+  });
+
+  it('rejects verifiers that are too short, even when they match the challenge', async () => {
+    const shortVerifier = 'too-short';
+    const code = await issueCode(shortVerifier);
+
+    await expect(authorizationCodeService.redeem(code, 'spa', REDIRECT_URI, shortVerifier))
+      .rejects.toThrow('code_verifier does not match the code_challenge');
+  });
+
+  it('rejects a code presented by another client or with another redirect_uri', async () => {
+    const otherClientCode = await issueCode(verifier, 'other-client');
+    await expect(authorizationCodeService.redeem(otherClientCode, 'spa', REDIRECT_URI, verifier))
+      .rejects.toThrow('Authorization code was issued to another client');
+
+    const code = await issueCode(verifier);
+    await expect(authorizationCodeService.redeem(code, 'spa', 'https://evil.example.com/callback', verifier))
+      .rejects.toThrow('redirect_uri does not match the authorization request');
+  });
+
+  it('leaves the code usable after a request that fails the checks', async () => {
+    const code = await issueCode(verifier);
+
+    await expect(authorizationCodeService.redeem(code, 'spa', REDIRECT_URI, randomBytes(32).toString('base64url')))
+      .rejects.toThrow('code_verifier does not match the code_challenge');
+    await expect(authorizationCodeService.redeem(code, 'spa', 'https://evil.example.com/callback', verifier))
+      .rejects.toThrow('redirect_uri does not match the authorization request');
+    await expect(authorizationCodeService.redeem(code, 'other-client', REDIRECT_URI, verifier))
+      .rejects.toThrow('Authorization code was issued to another client');
+
+    await expect(authorizationCodeService.redeem(code, 'spa', REDIRECT_URI, verifier))
+      .resolves.toMatchObject({ clientId: 'spa', userId: 'user-1' });
+  });
+
+  it('revokes the issued token when a code is replayed', async () => {
+    const code = await issueCode(verifier);
+    await authorizationCodeService.redeem(code, 'spa', REDIRECT_URI, verifier);
+    const exp = Math.floor(Date.now() / 1000) + 3600;
+    await authorizationCodeService.recordIssuedToken(code, 'issued-jti', exp);
+
+    await expect(authorizationCodeService.redeem(code, 'spa', REDIRECT_URI, verifier))
+      .rejects.toThrow('Authorization code has already been used');
+    await expect(revocationService.isRevoked('issued-jti')).resolves.toBe(true);
+  });
+
+  it('requires code_verifier at the token endpoint', async () => {
+    const code = await issueCode(verifier);
+
+    const response = await request(app)
+      .post('/token')
+      .type('form')
+      .send({ grant_type: 'authorization_code', client_id: 'spa', code, redirect_uri: REDIRECT_URI })
+      .expect(400);
+    expect(response.body).toEqual({ error: 'invalid_request', error_description: 'code_verifier is required (PKCE)' });
+  });
+
+  it('requires an S256 code_challenge at the authorization endpoint', async () => {
+    const authorize = (params: Record<string, string>) => request(app).get('/authorize').query({
+      response_type: 'code', client_id: 'spa', redirect_uri: REDIRECT_URI, state: 'xyz', ...params
+    });
+
+    const missing = await authorize({}).expect(302);
+    expect(new URL(missing.headers.location).searchParams.get('error_description')).toBe('code_challenge is required (PKCE)');
+
+    const plain = await authorize({ code_challenge: challengeFor(verifier), code_challenge_method: 'plain' }).expect(302);
+    expect(new URL(plain.headers.location).searchParams.get('error_description')).toBe('code_challenge_method must be S256');
+  });
+});
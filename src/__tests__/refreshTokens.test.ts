@@ -0,0 +1,90 @@
+import request from 'supertest';
+import { jwtService } from '../services/jwtService';
+import { refreshTokenService } from '../services/refreshTokenService';
+import { database } from '../utils/database';
+import { createTestApp, initializeTestKeys } from './helpers/testApp';
+
+// The refreshtokens, encryptionrecipients and revokedtokens collections, kept in memory
+jest.mock('../models/RefreshToken', () => ({
+  RefreshTokenModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/EncryptionRecipient', () => ({
+  EncryptionRecipientModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/RevokedToken', () => ({
+  RevokedTokenModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+
+const { RefreshTokenModel } = jest.requireMock('../models/RefreshToken');
+
+describe('refresh token rotation', () => {
+  beforeAll(() => {
+    jest.spyOn(database, 'isDbConnected').mockReturnValue(true);
+  });
+
+  it('issues a new refresh token in the same session and retires the old one', async () => {
+    const session = await refreshTokenService.createSession('user-1');
+
+    const rotated = await refreshTokenService.rotate(session.refreshToken);
+
+    expect(rotated.refreshToken).not.toBe(session.refreshToken);
+    expect(rotated.familyId).toBe(session.familyId);
+    expect(rotated.userId).toBe('user-1');
+    await expect(refreshTokenService.findActive(session.refreshToken)).resolves.toBeUndefined();
+    await expect(refreshTokenService.findActive(rotated.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('revokes the whole session when a rotated token is reused', async () => {
+    const session = await refreshTokenService.createSession('user-2');
+    const rotated = await refreshTokenService.rotate(session.refreshToken);
+
+    await expect(refreshTokenService.rotate(session.refreshToken))
+      .rejects.toThrow('Refresh token reuse detected, session revoked');
+
+    // The legitimate holder's newer token stops working too
+    await expect(refreshTokenService.rotate(rotated.refreshToken)).rejects.toThrow('Refresh token has been revoked');
+    const family = RefreshTokenModel.documents.filter((document: any) => document.familyId === session.familyId);
+    expect(family.every((document: any) => document.status === 'revoked')).toBe(true);
+    expect(family[0].revocationReason).toBe('reuse_detected');
+  });
+
+  it('lets only one of two concurrent redemptions succeed', async () => {
+    const session = await refreshTokenService.createSession('user-3');
+
+    const results = await Promise.allSettled([
+      refreshTokenService.rotate(session.refreshToken),
+      refreshTokenService.rotate(session.refreshToken)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+  });
+
+  it('leaves other sessions of the same user alone', async () => {
+    const first = await refreshTokenService.createSession('user-4');
+    const second = await refreshTokenService.createSession('user-4');
+    await refreshTokenService.rotate(first.refreshToken);
+
+    await expect(refreshTokenService.rotate(first.refreshToken)).rejects.toThrow('reuse detected');
+    await expect(refreshTokenService.rotate(second.refreshToken)).resolves.toMatchObject({ userId: 'user-4' });
+  });
+
+  it('rejects unknown refresh tokens', async () => {
+    await expect(refreshTokenService.rotate('not-a-refresh-token')).rejects.toThrow('Invalid refresh token');
+  });
+});
+
+describe('POST /api/auth/refresh', () => {
+  const app = createTestApp();
+
+  beforeAll(async () => {
+    await initializeTestKeys();
+  });
+
+  it('does not renew an access token without a refresh token', async () => {
+    const { access_token } = await jwtService.generateToken({ sub: 'user-5' });
+
+    const response = await request(app).post('/api/auth/refresh').set('Authorization', `Bearer ${access_token}`).expect(400);
+    expect(response.body.error).toBe('refresh_token is required');
+  });
+});
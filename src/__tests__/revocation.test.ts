@@ -0,0 +1,135 @@
+import request from 'supertest';
+import { jwtService } from '../services/jwtService';
+import { clientService } from '../services/clientService';
+import { refreshTokenService } from '../services/refreshTokenService';
+import { database } from '../utils/database';
+import { basicAuth, createTestApp, initializeTestKeys } from './helpers/testApp';
+
+// The collections revocation touches, kept in memory
+jest.mock('../models/OAuthClient', () => ({
+  OAuthClientModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/RefreshToken', () => ({
+  RefreshTokenModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/RevokedToken', () => ({
+  RevokedTokenModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/EncryptionRecipient', () => ({
+  EncryptionRecipientModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+
+const app = createTestApp();
+
+const registerClient = async (clientId: string): Promise<string> => {
+  const { clientSecret } = await clientService.registerClient({ clientId, scopes: ['orders:read'] });
+  return clientSecret!;
+};
+
+const clientCredentialsToken = async (clientId: string, clientSecret: string): Promise<string> => {
+  const response = await request(app)
+    .post('/token')
+    .set('Authorization', basicAuth(clientId, clientSecret))
+    .type('form')
+    .send({ grant_type: 'client_credentials' })
+    .expect(200);
+  return response.body.access_token;
+};
+
+const revoke = (clientId: string, clientSecret: string, body: Record<string, string>) =>
+  request(app).post('/token/revoke').set('Authorization', basicAuth(clientId, clientSecret)).type('form').send(body);
+
+describe('token revocation (RFC 7009)', () => {
+  let ordersSecret: string;
+  let billingSecret: string;
+
+  beforeAll(async () => {
+    jest.spyOn(database, 'isDbConnected').mockReturnValue(true);
+    await initializeTestKeys();
+    ordersSecret = await registerClient('orders');
+    billingSecret = await registerClient('billing');
+  });
+
+  it('requires client authentication', async () => {
+    const token = await clientCredentialsToken('orders', ordersSecret);
+
+    const response = await request(app).post('/token/revoke').type('form').send({ token }).expect(401);
+    expect(response.body.error).toBe('invalid_client');
+    await expect(jwtService.verifyToken(token)).resolves.toBeDefined();
+  });
+
+  it('revokes a token issued to the calling client', async () => {
+    const token = await clientCredentialsToken('orders', ordersSecret);
+
+    await revoke('orders', ordersSecret, { token }).expect(200);
+
+    await expect(jwtService.verifyToken(token)).rejects.toThrow('Token has been revoked');
+  });
+
+  it('refuses to revoke a token issued to another client', async () => {
+    const token = await clientCredentialsToken('orders', ordersSecret);
+
+    const response = await revoke('billing', billingSecret, { token }).expect(400);
+    expect(response.body.error).toBe('unauthorized_client');
+    await expect(jwtService.verifyToken(token)).resolves.toBeDefined();
+  });
+
+  it('refuses to revoke a user token not issued to any client', async () => {
+    const { access_token } = await jwtService.generateToken({ sub: 'user-1', username: 'alice', email: 'alice@example.com' });
+
+    await revoke('orders', ordersSecret, { token: access_token }).expect(400);
+    await expect(jwtService.verifyToken(access_token)).resolves.toBeDefined();
+  });
+
+  it('revokes tokens issued for other audiences', async () => {
+    const { access_token } = await jwtService.generateToken({ sub: 'user-1' }, {
+      audience: 'reporting-api',
+      claims: { client_id: 'orders' }
+    });
+
+    await revoke('orders', ordersSecret, { token: access_token }).expect(200);
+
+    await expect(jwtService.verifyTokenClaims(access_token, { anyAudience: true })).rejects.toThrow('Token has been revoked');
+  });
+
+  it('treats ID tokens as invalid rather than as access tokens', async () => {
+    const accessToken = await clientCredentialsToken('orders', ordersSecret);
+    const idToken = await jwtService.generateIdToken('user-1', { clientId: 'orders', authTime: new Date(), accessToken });
+
+    await expect(jwtService.verifyTokenClaims(idToken, { anyAudience: true }))
+      .rejects.toThrow('ID tokens cannot be used as access tokens');
+
+    const introspection = await request(app)
+      .post('/token/introspect')
+      .set('Authorization', basicAuth('orders', ordersSecret))
+      .type('form')
+      .send({ token: idToken })
+      .expect(200);
+    expect(introspection.body).toEqual({ active: false });
+
+    await revoke('orders', ordersSecret, { token: idToken }).expect(200);
+  });
+
+  it('answers 200 for invalid tokens so they cannot be probed', async () => {
+    await revoke('orders', ordersSecret, { token: 'not-a-token' }).expect(200);
+    await revoke('orders', ordersSecret, { token: 'eyJhbGciOiJub25lIn0.e30.' }).expect(200);
+  });
+
+  it('revokes a refresh token and its session, with or without a hint', async () => {
+    const hinted = await refreshTokenService.createSession('user-1');
+    await revoke('orders', ordersSecret, { token: hinted.refreshToken, token_type_hint: 'refresh_token' }).expect(200);
+    await expect(refreshTokenService.isSessionActive(hinted.familyId, 'user-1')).resolves.toBe(false);
+
+    const unhinted = await refreshTokenService.createSession('user-1');
+    await revoke('orders', ordersSecret, { token: unhinted.refreshToken }).expect(200);
+    await expect(refreshTokenService.isSessionActive(unhinted.familyId, 'user-1')).resolves.toBe(false);
+  });
+
+  it('still revokes an access token sent with the refresh_token hint', async () => {
+    const token = await clientCredentialsToken('orders', ordersSecret);
+
+    await revoke('orders', ordersSecret, { token, token_type_hint: 'refresh_token' }).expect(200);
+
+    await expect(jwtService.verifyToken(token)).rejects.toThrow('Token has been revoked');
+  });
+});
@@ -0,0 +1,51 @@
+import request from 'supertest';
+import * as jose from 'jose';
+import { ADMIN_KEY, createTestApp, initializeTestKeys } from './helpers/testApp';
+
+const app = createTestApp();
+
+const batch = (body: Record<string, unknown>, adminKey: string = ADMIN_KEY) =>
+  request(app).post('/api/token/batch').set('X-Admin-Key', adminKey).send(body);
+
+describe('batch token minting', () => {
+  beforeAll(async () => {
+    await initializeTestKeys();
+  });
+
+  it('requires the admin key', async () => {
+    const body = { template: { scope: 'read' }, count: 1 };
+
+    await request(app).post('/api/token/batch').send(body).expect(401);
+    await batch(body, 'wrong-key').expect(403);
+  });
+
+  it('mints tokens from the real issuer with templated subjects', async () => {
+    const response = await batch({ template: { sub: 'user-{n}', username: 'load-{n}', scope: 'read' }, count: 2 }).expect(200);
+
+    const tokens = response.body.data.tokens;
+    expect(tokens.map((token: { sub: string }) => token.sub)).toEqual(['user-1', 'user-2']);
+    const claims = jose.decodeJwt(tokens[1].access_token);
+    expect(claims).toMatchObject({ iss: 'https://auth.test', sub: 'user-2', username: 'load-2' });
+  });
+
+  it('defaults the subject to demo-user-{n}', async () => {
+    const response = await batch({ tokens: [{ scope: 'read' }, { sub: 'admin', scope: 'read' }] }).expect(200);
+
+    expect(response.body.data.tokens.map((token: { sub: string }) => token.sub)).toEqual(['demo-user-1', 'admin']);
+  });
+
+  it('refuses a subject that is not a string', async () => {
+    const response = await batch({ tokens: [{ sub: 42 }] }).expect(400);
+    expect(response.body.error).toBe('tokens[0]: sub must be a non-empty string of at most 255 characters');
+  });
+
+  it('mints demo tokens that authenticated endpoints reject when asked to', async () => {
+    const response = await batch({ tokens: [{ scope: 'admin', roles: ['support'] }], demo: true }).expect(200);
+    const token = response.body.data.tokens[0].access_token;
+    expect(jose.decodeJwt(token).iss).toBe('https://auth.test/demo');
+
+    await request(app).get('/api/auth/profile').set('Authorization', `Bearer ${token}`).expect(401);
+    await request(app).post('/api/auth/validate').send({ token }).expect(401);
+    await request(app).post('/api/token/validate').send({ token }).expect(200);
+  });
+});
@@ -0,0 +1,215 @@
+import request from 'supertest';
+import * as jose from 'jose';
+import { jwtService } from '../services/jwtService';
+import { clientService } from '../services/clientService';
+import { refreshTokenService } from '../services/refreshTokenService';
+import { database } from '../utils/database';
+import { basicAuth, createTestApp, initializeTestKeys } from './helpers/testApp';
+
+// The collections token exchange touches, kept in memory
+jest.mock('../models/User', () => ({
+  UserModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/RefreshToken', () => ({
+  RefreshTokenModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/OAuthClient', () => ({
+  OAuthClientModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/RevokedToken', () => ({
+  RevokedTokenModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/EncryptionRecipient', () => ({
+  EncryptionRecipientModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+jest.mock('../models/ImpersonationEvent', () => ({
+  ImpersonationEventModel: jest.requireActual('./helpers/memoryModel').createMemoryModel()
+}));
+
+const { UserModel } = jest.requireMock('../models/User');
+const { ImpersonationEventModel } = jest.requireMock('../models/ImpersonationEvent');
+
+const app = createTestApp();
+
+const PASSWORD = 'correct horse';
+const TOKEN_EXCHANGE = 'urn:ietf:params:oauth:grant-type:token-exchange';
+const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+const addUser = async (username: string, fields: { roles?: string[]; scopes?: string[] } = {}): Promise<string> => {
+  const user = await UserModel.create({
+    username,
+    email: `${username}@example.com`,
+    roles: fields.roles || [],
+    scopes: fields.scopes || [],
+    comparePassword: async (candidate: string) => candidate === PASSWORD,
+    toJSON: () => ({ username })
+  });
+  return user._id;
+};
+
+const login = async (username: string): Promise<{ access_token: string; refresh_token: string }> => {
+  const response = await request(app).post('/api/auth/login').send({ username, password: PASSWORD }).expect(200);
+  return response.body.data.token;
+};
+
+describe('token exchange impersonation', () => {
+  let clientSecret: string;
+  let customerId: string;
+
+  const impersonate = (subjectToken: string, params: Record<string, string> = {}) =>
+    request(app)
+      .post('/token')
+      .set('Authorization', basicAuth('support-desk', clientSecret))
+      .type('form')
+      .send({
+        grant_type: TOKEN_EXCHANGE,
+        subject_token: subjectToken,
+        subject_token_type: ACCESS_TOKEN_TYPE,
+        audience: 'orders-api',
+        requested_subject: customerId,
+        ...params
+      });
+
+  beforeAll(async () => {
+    jest.spyOn(database, 'isDbConnected').mockReturnValue(true);
+    await initializeTestKeys();
+    ({ clientSecret } = await clientService.registerClient({
+      clientId: 'support-desk',
+      grantTypes: [TOKEN_EXCHANGE],
+      exchangeAudiences: ['orders-api'],
+      allowImpersonation: true
+    }) as { clientSecret: string });
+
+    await addUser('agent', { roles: ['support'], scopes: ['orders:read', 'orders:refund'] });
+    await addUser('mallory');
+    customerId = await addUser('customer');
+  });
+
+  it('lets support staff impersonate a user with the scopes stored for them', async () => {
+    const { access_token } = await login('agent');
+
+    const response = await impersonate(access_token).expect(200);
+
+    const claims = jose.decodeJwt(response.body.access_token);
+    expect(claims.sub).toBe(customerId);
+    expect(claims.scope).toBe('orders:read orders:refund');
+    expect(claims.act).toEqual({ sub: jose.decodeJwt(access_token).sub });
+    expect(ImpersonationEventModel.documents).toContainEqual(expect.objectContaining({
+      actorUsername: 'agent',
+      subjectSub: customerId
+    }));
+  });
+
+  it('ignores roles and scope claims in the subject token', async () => {
+    const { access_token } = await login('mallory');
+    const claims = jose.decodeJwt(access_token);
+    const { access_token: forged } = await jwtService.generateToken({ sub: claims.sub! }, {
+      roles: ['support'],
+      scope: 'orders:refund',
+      claims: { sid: claims.sid }
+    });
+
+    const response = await impersonate(forged).expect(400);
+    expect(response.body.error).toBe('invalid_grant');
+  });
+
+  it('only narrows the staff user\'s stored scopes', async () => {
+    const { access_token } = await login('agent');
+
+    await impersonate(access_token, { scope: 'orders:read' }).expect(200);
+    const response = await impersonate(access_token, { scope: 'orders:read admin' }).expect(400);
+    expect(response.body.error).toBe('invalid_scope');
+  });
+
+  it('refuses staff tokens that were not issued for a login session', async () => {
+    const { access_token } = await login('agent');
+    const { sub } = jose.decodeJwt(access_token);
+    const { access_token: sessionless } = await jwtService.generateToken({ sub: sub! });
+
+    const response = await impersonate(sessionless).expect(400);
+    expect(response.body.error).toBe('invalid_grant');
+  });
+
+  it('refuses tokens of a session that has ended', async () => {
+    const { access_token } = await login('agent');
+    await refreshTokenService.revokeFamily(jose.decodeJwt(access_token).sid as string, 'reuse_detected');
+
+    const response = await impersonate(access_token).expect(400);
+    expect(response.body.error_description).toBe('subject_token does not belong to an active login session');
+  });
+
+  it('refuses clients that do not allow impersonation', async () => {
+    const { clientSecret: otherSecret } = await clientService.registerClient({
+      clientId: 'orders-gateway',
+      grantTypes: [TOKEN_EXCHANGE],
+      exchangeAudiences: ['orders-api']
+    });
+    const { access_token } = await login('agent');
+
+    const response = await request(app)
+      .post('/token')
+      .set('Authorization', basicAuth('orders-gateway', otherSecret!))
+      .type('form')
+      .send({
+        grant_type: TOKEN_EXCHANGE,
+        subject_token: access_token,
+        subject_token_type: ACCESS_TOKEN_TYPE,
+        audience: 'orders-api',
+        requested_subject: customerId
+      })
+      .expect(400);
+    expect(response.body.error).toBe('unauthorized_client');
+  });
+});
+
+describe('token exchange subject tokens', () => {
+  let clientSecret: string;
+
+  const exchange = (subjectToken: string) =>
+    request(app)
+      .post('/token')
+      .set('Authorization', basicAuth('reports-gateway', clientSecret))
+      .type('form')
+      .send({
+        grant_type: TOKEN_EXCHANGE,
+        subject_token: subjectToken,
+        subject_token_type: ACCESS_TOKEN_TYPE,
+        audience: 'reports-api'
+      });
+
+  beforeAll(async () => {
+    await initializeTestKeys();
+    ({ clientSecret } = await clientService.registerClient({
+      clientId: 'reports-gateway',
+      grantTypes: [TOKEN_EXCHANGE],
+      exchangeAudiences: ['reports-api']
+    }) as { clientSecret: string });
+  });
+
+  it('accepts access tokens for this service or for an audience the client exchanges into', async () => {
+    const { access_token: ownToken } = await jwtService.generateToken({ sub: 'user-1' });
+    await exchange(ownToken).expect(200);
+
+    const { access_token: exchanged } = await jwtService.generateToken({ sub: 'user-1' }, { audience: 'reports-api' });
+    await exchange(exchanged).expect(200);
+  });
+
+  it('refuses access tokens for other audiences', async () => {
+    const { access_token } = await jwtService.generateToken({ sub: 'user-1' }, { audience: 'billing-api' });
+
+    const response = await exchange(access_token).expect(400);
+    expect(response.body.error).toBe('invalid_grant');
+  });
+
+  it('refuses ID tokens', async () => {
+    const { access_token } = await jwtService.generateToken({ sub: 'user-1' });
+    const idToken = await jwtService.generateIdToken('user-1', {
+      clientId: 'reports-gateway',
+      authTime: new Date(),
+      accessToken: access_token
+    });
+
+    const response = await exchange(idToken).expect(400);
+    expect(response.body.error).toBe('invalid_grant');
+  });
+});
@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import { impersonationAuditService } from '../services/impersonationAuditService';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { database } from '../utils/database';
+import { ApiResponse, ImpersonationEvent } from '../types';
+
+const MAX_LIST_LIMIT = 1000;
+
+const describeEvent = (event: ImpersonationEvent) => ({
+  actor: { sub: event.actorSub, username: event.actorUsername },
+  subject: { sub: event.subjectSub, username: event.subjectUsername },
+  client_id: event.clientId,
+  audience: event.audience,
+  scope: event.scope,
+  jti: event.jti,
+  expires_at: event.expiresAt.toISOString(),
+  created_at: event.createdAt?.toISOString()
+});
+
+const readQueryString = (value: unknown, name: string): string | undefined => {
+  if (value !== undefined && typeof value !== 'string') {
+    throw new AppError(`${name} must be given once`, 400);
+  }
+  return value || undefined;
+};
+
+export const listImpersonations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!database.isDbConnected()) {
+    throw new AppError('The impersonation audit log requires a database connection', 503);
+  }
+
+  const limitParam = readQueryString(req.query.limit, 'limit');
+  const limit = limitParam !== undefined ? Number(limitParam) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT)) {
+    throw new AppError(`limit must be an integer between 1 and ${MAX_LIST_LIMIT}`, 400);
+  }
+
+  const events = await impersonationAuditService.list({
+    actorSub: readQueryString(req.query.actor, 'actor'),
+    subjectSub: readQueryString(req.query.subject, 'subject'),
+    limit
+  });
+
+  const response: ApiResponse<{ events: any[] }> = {
+    success: true,
+    data: { events: events.map(describeEvent) },
+    message: 'Impersonation audit log retrieved successfully'
+  };
+
+  res.status(200).json(response);
+});
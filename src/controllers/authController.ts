@@ -1,8 +1,43 @@
 import { Request, Response } from 'express';
-import { UserModel } from '../models/User';
-import { jwtService } from '../services/jwtService';
+import { UserDocument, UserModel } from '../models/User';
+import { jwtService, TokenOptions } from '../services/jwtService';
+import { RecipientKeyError } from '../services/recipientService';
+import { IssuedRefreshToken, refreshTokenService, RefreshTokenError, RotatedRefreshToken } from '../services/refreshTokenService';
+import { revocationService } from '../services/revocationService';
+import { database } from '../utils/database';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
-import { UserLoginRequest, UserRegisterRequest, ApiResponse, TokenResponse } from '../types';
+import { UserLoginRequest, UserRegisterRequest, ApiResponse, SessionTokenResponse, TokenResponse } from '../types';
+
+/**
+ * Issue an access token for a user together with a refresh token, either
+ * starting a new session or continuing a rotated one. The access token's sid
+ * claim names the session, so it can be told apart from tokens issued to clients.
+ */
+const issueSessionTokens = async (
+  user: UserDocument,
+  refresh: IssuedRefreshToken,
+  options: TokenOptions = {}
+): Promise<SessionTokenResponse> => {
+  let tokenResponse: TokenResponse;
+  try {
+    tokenResponse = await jwtService.generateToken({
+      sub: user._id!.toString(),
+      username: user.username,
+      email: user.email
+    }, { ...options, claims: { ...options.claims, sid: refresh.familyId } });
+  } catch (error) {
+    if (error instanceof RecipientKeyError) {
+      throw new AppError(error.message, 400);
+    }
+    throw error;
+  }
+
+  return {
+    ...tokenResponse,
+    refresh_token: refresh.refreshToken,
+    refresh_expires_in: refresh.expiresIn
+  };
+};
 
 export const register = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { username, email, password }: UserRegisterRequest = req.body;
@@ -29,14 +64,11 @@ export const register = asyncHandler(async (req: Request, res: Response): Promis
   const user = new UserModel({ username, email, password });
   await user.save();
 
-  // Generate JWT token
-  const tokenResponse = await jwtService.generateToken({
-    sub: user._id!.toString(),
-    username: user.username,
-    email: user.email
-  });
+  // Generate JWT and refresh tokens
+  const session = await refreshTokenService.createSession(user._id!.toString());
+  const tokenResponse = await issueSessionTokens(user, session);
 
-  const response: ApiResponse<{ user: any; token: TokenResponse }> = {
+  const response: ApiResponse<{ user: any; token: SessionTokenResponse }> = {
     success: true,
     data: {
       user: user.toJSON(),
@@ -49,13 +81,17 @@ export const register = asyncHandler(async (req: Request, res: Response): Promis
 });
 
 export const login = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-  const { username, password }: UserLoginRequest = req.body;
+  const { username, password, encrypt }: UserLoginRequest = req.body;
 
   // Validation
   if (!username || !password) {
     throw new AppError('Username and password are required', 400);
   }
 
+  if (encrypt !== undefined && typeof encrypt !== 'boolean') {
+    throw new AppError('encrypt must be a boolean', 400);
+  }
+
   // Find user by username or email
   const user = await UserModel.findOne({
     $or: [{ username }, { email: username }]
@@ -71,14 +107,11 @@ export const login = asyncHandler(async (req: Request, res: Response): Promise<v
     throw new AppError('Invalid credentials', 401);
   }
 
-  // Generate JWT token
-  const tokenResponse = await jwtService.generateToken({
-    sub: user._id!.toString(),
-    username: user.username,
-    email: user.email
-  });
+  // Generate JWT and refresh tokens
+  const session = await refreshTokenService.createSession(user._id!.toString());
+  const tokenResponse = await issueSessionTokens(user, session, { encrypt });
 
-  const response: ApiResponse<{ user: any; token: TokenResponse }> = {
+  const response: ApiResponse<{ user: any; token: SessionTokenResponse }> = {
     success: true,
     data: {
       user: user.toJSON(),
@@ -109,27 +142,80 @@ export const getProfile = asyncHandler(async (req: Request, res: Response): Prom
   res.status(200).json(response);
 });
 
+/**
+ * Redeem a refresh token for a new access token and refresh token. Access
+ * tokens cannot be refreshed on their own: only a refresh token proves the
+ * session is still active.
+ */
 export const refreshToken = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { refresh_token } = req.body || {};
+
+  if (refresh_token === undefined) {
+    throw new AppError('refresh_token is required', 400);
+  }
+  if (typeof refresh_token !== 'string') {
+    throw new AppError('refresh_token must be a string', 400);
+  }
+
+  let rotated: RotatedRefreshToken;
+  try {
+    rotated = await refreshTokenService.rotate(refresh_token);
+  } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      throw new AppError(error.message, 401);
+    }
+    throw error;
+  }
+
+  const user = await UserModel.findById(rotated.userId);
+  if (!user) {
+    await refreshTokenService.revokeFamily(rotated.familyId, 'user_deleted');
+    throw new AppError('User not found', 401);
+  }
+
+  const response: ApiResponse<SessionTokenResponse> = {
+    success: true,
+    data: await issueSessionTokens(user, rotated),
+    message: 'Token refreshed successfully'
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Revoke the caller's access token and, when one is sent, end the session of
+ * their refresh token
+ */
+export const logout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   if (!req.user) {
     throw new AppError('User not authenticated', 401);
   }
+  if (req.user.externalIssuer) {
+    throw new AppError('Tokens from external issuers cannot be logged out here', 403);
+  }
 
-  const user = await UserModel.findById(req.user.sub);
-  if (!user) {
-    throw new AppError('User not found', 404);
+  const { refresh_token } = req.body || {};
+  if (refresh_token !== undefined && typeof refresh_token !== 'string') {
+    throw new AppError('refresh_token must be a string', 400);
   }
 
-  // Generate new JWT token
-  const tokenResponse = await jwtService.generateToken({
-    sub: user._id!.toString(),
-    username: user.username,
-    email: user.email
-  });
+  // Tokens issued before jti was added cannot be revoked and simply expire
+  if (req.user.jti && req.user.exp) {
+    await revocationService.revokeToken({
+      jti: req.user.jti,
+      sub: req.user.sub,
+      exp: req.user.exp,
+      reason: 'logout'
+    });
+  }
+
+  if (refresh_token && database.isDbConnected()) {
+    await refreshTokenService.revoke(refresh_token, 'logout', req.user.sub);
+  }
 
-  const response: ApiResponse<TokenResponse> = {
+  const response: ApiResponse = {
     success: true,
-    data: tokenResponse,
-    message: 'Token refreshed successfully'
+    message: 'Logged out successfully'
   };
 
   res.status(200).json(response);
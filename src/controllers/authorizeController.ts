@@ -0,0 +1,202 @@
+import { Request, Response } from 'express';
+import { clientService } from '../services/clientService';
+import { authorizationCodeService } from '../services/authorizationCodeService';
+import { OAuthError, asyncHandler } from '../middleware/errorHandler';
+import { UserModel } from '../models/User';
+import { database } from '../utils/database';
+import { renderErrorPage, renderLoginPage, sendPage } from '../views/oauthPages';
+import { OAuthClient } from '../types';
+
+const AUTHORIZE_PARAMETERS = [
+  'response_type', 'client_id', 'redirect_uri', 'scope', 'state', 'nonce', 'code_challenge', 'code_challenge_method'
+];
+
+interface ParsedAuthorizationRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  scopes: string[];
+  state?: string;
+  nonce?: string;
+  codeChallenge: string;
+}
+
+/**
+ * Shown to the user instead of redirecting, because the client or its
+ * redirect_uri cannot be trusted (RFC 6749 section 4.1.2.1)
+ */
+class AuthorizePageError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'AuthorizePageError';
+  }
+}
+
+/**
+ * Returned to the client at its (validated) redirect_uri
+ */
+class AuthorizationRedirectError extends OAuthError {
+  constructor(errorCode: string, description: string, public redirectUri: string, public state?: string) {
+    super(errorCode, description);
+  }
+}
+
+const readParameters = (source: Record<string, unknown>): Record<string, string | undefined> => {
+  const params: Record<string, string | undefined> = {};
+  for (const name of AUTHORIZE_PARAMETERS) {
+    const value = source[name];
+    // RFC 6749 section 3.1: parameters must not be repeated
+    if (value !== undefined && typeof value !== 'string') {
+      throw new AuthorizePageError(`The ${name} parameter must be sent once`);
+    }
+    params[name] = value || undefined;
+  }
+  return params;
+};
+
+const parseAuthorizationRequest = async (
+  params: Record<string, string | undefined>
+): Promise<ParsedAuthorizationRequest> => {
+  if (!database.isDbConnected()) {
+    throw new AuthorizePageError('Sign-in is unavailable because the database is not connected', 503);
+  }
+
+  const client = params.client_id ? await clientService.getClient(params.client_id) : undefined;
+  if (!client) {
+    throw new AuthorizePageError('Unknown client_id');
+  }
+
+  // Registered redirect URIs are matched exactly
+  const redirectUri = params.redirect_uri;
+  if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+    throw new AuthorizePageError('redirect_uri is not registered for this client');
+  }
+
+  const fail = (errorCode: string, description: string) =>
+    new AuthorizationRedirectError(errorCode, description, redirectUri, params.state);
+
+  if (params.response_type !== 'code') {
+    throw fail('unsupported_response_type', 'response_type must be code');
+  }
+  if (!client.grantTypes.includes('authorization_code')) {
+    throw fail('unauthorized_client', 'Client is not allowed to use the authorization_code grant');
+  }
+  if (!params.code_challenge) {
+    throw fail('invalid_request', 'code_challenge is required (PKCE)');
+  }
+  if (params.code_challenge_method !== 'S256') {
+    throw fail('invalid_request', 'code_challenge_method must be S256');
+  }
+  if (!authorizationCodeService.isValidCodeChallenge(params.code_challenge)) {
+    throw fail('invalid_request', 'code_challenge must be a base64url-encoded SHA-256 digest');
+  }
+
+  const scopes = [...new Set((params.scope || '').split(' ').filter(Boolean))];
+  const disallowed = scopes.filter(scope => !client.scopes.includes(scope));
+  if (disallowed.length > 0) {
+    throw fail('invalid_scope', `Scopes not allowed for this client: ${disallowed.join(', ')}`);
+  }
+
+  return {
+    client,
+    redirectUri,
+    scopes,
+    state: params.state,
+    nonce: params.nonce,
+    codeChallenge: params.code_challenge
+  };
+};
+
+const redirectTo = (res: Response, redirectUri: string, params: Record<string, string | undefined>): void => {
+  const url = new URL(redirectUri);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(name, value);
+    }
+  }
+  res.redirect(302, url.toString());
+};
+
+const handleAuthorizationRequest = async (
+  res: Response,
+  source: Record<string, unknown>,
+  handler: (request: ParsedAuthorizationRequest, params: Record<string, string | undefined>) => Promise<void>
+): Promise<void> => {
+  let params: Record<string, string | undefined>;
+  let request: ParsedAuthorizationRequest;
+  try {
+    params = readParameters(source);
+    request = await parseAuthorizationRequest(params);
+  } catch (error) {
+    if (error instanceof AuthorizePageError) {
+      sendPage(res, error.statusCode, renderErrorPage(error.message));
+      return;
+    }
+    if (error instanceof AuthorizationRedirectError) {
+      redirectTo(res, error.redirectUri, {
+        error: error.errorCode,
+        error_description: error.message,
+        state: error.state
+      });
+      return;
+    }
+    throw error;
+  }
+
+  await handler(request, params);
+};
+
+const loginPage = (
+  request: ParsedAuthorizationRequest,
+  params: Record<string, string | undefined>,
+  username?: string,
+  error?: string
+): string => renderLoginPage({
+  action: '/authorize',
+  clientName: request.client.name || request.client.clientId,
+  scopes: request.scopes,
+  hiddenFields: params,
+  username,
+  error
+});
+
+/**
+ * Authorization endpoint (RFC 6749 section 3.1): validate the request and show
+ * the sign-in page
+ */
+export const showAuthorizePage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  await handleAuthorizationRequest(res, req.query, async (request, params) => {
+    sendPage(res, 200, loginPage(request, params), request.redirectUri);
+  });
+});
+
+/**
+ * Sign-in form submission: check the credentials, then redirect back to the
+ * client with a single-use authorization code
+ */
+export const submitAuthorizePage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  await handleAuthorizationRequest(res, req.body || {}, async (request, params) => {
+    const { username, password } = req.body;
+
+    const user = typeof username === 'string' && typeof password === 'string'
+      ? await UserModel.findOne({ username })
+      : null;
+
+    if (!user || !await user.comparePassword(password)) {
+      const name = typeof username === 'string' ? username : undefined;
+      sendPage(res, 401, loginPage(request, params, name, 'Invalid username or password'), request.redirectUri);
+      return;
+    }
+
+    const code = await authorizationCodeService.createCode({
+      clientId: request.client.clientId,
+      userId: user._id!.toString(),
+      redirectUri: request.redirectUri,
+      codeChallenge: request.codeChallenge,
+      scope: request.scopes.join(' ') || undefined,
+      nonce: request.nonce,
+      authTime: new Date()
+    });
+
+    redirectTo(res, request.redirectUri, { code, state: request.state });
+  });
+});
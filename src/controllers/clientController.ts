@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { clientService, RegisteredClient } from '../services/clientService';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { ApiResponse, OAuthClient } from '../types';
+
+const describeClient = (client: OAuthClient) => ({
+  client_id: client.clientId,
+  name: client.name,
+  public: client.isPublic,
+  redirect_uris: client.redirectUris,
+  grant_types: client.grantTypes,
+  scopes: client.scopes,
+  exchange_audiences: client.exchangeAudiences,
+  impersonation: client.allowImpersonation,
+  token_endpoint_auth_method: client.isPublic ? 'none' : client.tokenEndpointAuthMethod || 'client_secret_basic',
+  tls_client_auth_subject_dn: client.tlsClientAuthSubjectDn,
+  tls_client_certificate_thumbprints: client.tlsClientCertificateThumbprints,
+  created_at: client.createdAt?.toISOString(),
+  updated_at: client.updatedAt?.toISOString()
+});
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const listClients = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const clients = await clientService.listClients();
+
+  const response: ApiResponse<{ clients: any[] }> = {
+    success: true,
+    data: { clients: clients.map(describeClient) },
+    message: 'OAuth clients retrieved successfully'
+  };
+
+  res.status(200).json(response);
+});
+
+export const registerClient = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { client_id, name, redirect_uris, grant_types, scopes, exchange_audiences, impersonation } = req.body;
+  const { token_endpoint_auth_method, tls_client_auth_subject_dn, tls_client_certificates } = req.body;
+  const isPublic = req.body.public;
+
+  if (client_id !== undefined && typeof client_id !== 'string') {
+    throw new AppError('client_id must be a string', 400);
+  }
+  if (name !== undefined && (typeof name !== 'string' || name.length > 100)) {
+    throw new AppError('name must be a string of at most 100 characters', 400);
+  }
+  if (isPublic !== undefined && typeof isPublic !== 'boolean') {
+    throw new AppError('public must be a boolean', 400);
+  }
+  if (redirect_uris !== undefined && !isStringArray(redirect_uris)) {
+    throw new AppError('redirect_uris must be an array of strings', 400);
+  }
+  if (grant_types !== undefined && !isStringArray(grant_types)) {
+    throw new AppError('grant_types must be an array of strings', 400);
+  }
+  if (scopes !== undefined && !isStringArray(scopes)) {
+    throw new AppError('scopes must be an array of strings', 400);
+  }
+  if (exchange_audiences !== undefined && !isStringArray(exchange_audiences)) {
+    throw new AppError('exchange_audiences must be an array of strings', 400);
+  }
+  if (impersonation !== undefined && typeof impersonation !== 'boolean') {
+    throw new AppError('impersonation must be a boolean', 400);
+  }
+  if (token_endpoint_auth_method !== undefined && typeof token_endpoint_auth_method !== 'string') {
+    throw new AppError('token_endpoint_auth_method must be a string', 400);
+  }
+  if (tls_client_auth_subject_dn !== undefined && (typeof tls_client_auth_subject_dn !== 'string' || !tls_client_auth_subject_dn)) {
+    throw new AppError('tls_client_auth_subject_dn must be a non-empty string', 400);
+  }
+  if (tls_client_certificates !== undefined && !isStringArray(tls_client_certificates)) {
+    throw new AppError('tls_client_certificates must be an array of PEM strings', 400);
+  }
+
+  let registered: RegisteredClient;
+  try {
+    registered = await clientService.registerClient({
+      clientId: client_id,
+      name,
+      isPublic,
+      redirectUris: redirect_uris,
+      grantTypes: grant_types,
+      scopes,
+      exchangeAudiences: exchange_audiences,
+      allowImpersonation: impersonation,
+      tokenEndpointAuthMethod: token_endpoint_auth_method,
+      tlsClientAuthSubjectDn: tls_client_auth_subject_dn,
+      tlsClientCertificates: tls_client_certificates
+    });
+  } catch (error: any) {
+    throw new AppError(`Failed to register client: ${error.message}`, 400);
+  }
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      ...describeClient(registered.client),
+      client_secret: registered.clientSecret
+    },
+    message: registered.clientSecret
+      ? 'OAuth client registered successfully; store the client_secret now, it is not shown again'
+      : registered.client.isPublic
+        ? 'Public OAuth client registered successfully'
+        : 'OAuth client registered successfully'
+  };
+
+  res.status(201).json(response);
+});
+
+export const removeClient = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!await clientService.removeClient(req.params.clientId)) {
+    throw new AppError(`Client ${req.params.clientId} not found`, 404);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'OAuth client removed successfully'
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { clientService } from '../services/clientService';
+import { deviceAuthorizationService, PendingDeviceAuthorization } from '../services/deviceAuthorizationService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { UserModel } from '../models/User';
+import { database } from '../utils/database';
+import {
+  renderErrorPage,
+  renderLoginPage,
+  renderMessagePage,
+  renderUserCodePage,
+  sendPage
+} from '../views/oauthPages';
+
+const INVALID_CODE_MESSAGE = 'That code is invalid or has expired. Check the code on your device and try again.';
+
+const readUserCode = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const approvalPage = async (
+  pending: PendingDeviceAuthorization,
+  username?: string,
+  error?: string
+): Promise<string> => {
+  const client = await clientService.getClient(pending.clientId);
+
+  return renderLoginPage({
+    action: '/device',
+    clientName: client?.name || pending.clientId,
+    scopes: pending.scope ? pending.scope.split(' ') : [],
+    hiddenFields: { user_code: pending.userCode },
+    note: `Check that your device shows the code ${pending.userCode}.`,
+    submitLabel: 'Sign in and approve',
+    denyLabel: 'Deny',
+    username,
+    error
+  });
+};
+
+/**
+ * Verification page (RFC 8628 section 3.3). Without a user_code the user is
+ * asked to type one in; with a valid code (as in verification_uri_complete)
+ * they sign in to approve or deny the device.
+ */
+export const showDevicePage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!database.isDbConnected()) {
+    sendPage(res, 503, renderErrorPage('Device sign-in is unavailable because the database is not connected'));
+    return;
+  }
+
+  const userCode = readUserCode(req.query.user_code);
+  if (!userCode) {
+    sendPage(res, 200, renderUserCodePage({}));
+    return;
+  }
+
+  const pending = await deviceAuthorizationService.findPending(userCode);
+  if (!pending) {
+    sendPage(res, 400, renderUserCodePage({ userCode, error: INVALID_CODE_MESSAGE }));
+    return;
+  }
+
+  sendPage(res, 200, await approvalPage(pending));
+});
+
+/**
+ * Sign-in form submission: check the credentials, then record whether the
+ * user approved or denied the device
+ */
+export const submitDevicePage = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!database.isDbConnected()) {
+    sendPage(res, 503, renderErrorPage('Device sign-in is unavailable because the database is not connected'));
+    return;
+  }
+
+  const { username, password, decision } = req.body || {};
+  const userCode = readUserCode(req.body?.user_code);
+  const pending = userCode ? await deviceAuthorizationService.findPending(userCode) : undefined;
+  if (!pending) {
+    sendPage(res, 400, renderUserCodePage({ userCode, error: INVALID_CODE_MESSAGE }));
+    return;
+  }
+
+  if (decision !== 'approve' && decision !== 'deny') {
+    sendPage(res, 400, renderErrorPage('decision must be approve or deny'));
+    return;
+  }
+
+  const user = typeof username === 'string' && typeof password === 'string'
+    ? await UserModel.findOne({ username })
+    : null;
+
+  if (!user || !await user.comparePassword(password)) {
+    const name = typeof username === 'string' ? username : undefined;
+    sendPage(res, 401, await approvalPage(pending, name, 'Invalid username or password'));
+    return;
+  }
+
+  const approved = decision === 'approve';
+  const completed = await deviceAuthorizationService.complete(pending.userCode, user._id!.toString(), approved);
+  if (!completed) {
+    sendPage(res, 400, renderUserCodePage({ error: INVALID_CODE_MESSAGE }));
+    return;
+  }
+
+  sendPage(res, 200, approved
+    ? renderMessagePage('Device connected', 'You can return to your device; it will finish signing in shortly.')
+    : renderMessagePage('Request denied', 'The device was not given access to your account.'));
+});
@@ -1,15 +1,29 @@
 import { Request, Response } from 'express';
 import { keyService } from '../services/keyService';
+import { keyRotationService } from '../services/keyRotationService';
 import { asyncHandler } from '../middleware/errorHandler';
 import { JWKS } from '../types';
 
+/**
+ * Key thumbprints operators can use to match keys across systems
+ */
+const describeThumbprints = async (publicKey: any) => {
+  const jwkThumbprint = await keyService.calculateThumbprint(publicKey);
+
+  return {
+    'jwk#S256': jwkThumbprint,
+    'jwk#S256_uri': `urn:ietf:params:oauth:jwk-thumbprint:sha-256:${jwkThumbprint}`,
+    'spki#S256': await keyService.calculateSpkiThumbprint(publicKey)
+  };
+};
+
 export const getJWKS = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
     const jwks: JWKS = await keyService.getJWKS();
     
     // Set appropriate caching headers
     res.set({
-      'Cache-Control': 'public, max-age=86400', // Cache for 24 hours
+      'Cache-Control': `public, max-age=${keyRotationService.getJwksCacheMaxAge()}`, // 24 hours by default
       'Content-Type': 'application/json'
     });
 
@@ -28,7 +42,7 @@ export const getWellKnownJWKS = asyncHandler(async (req: Request, res: Response)
     
     // Set appropriate caching headers for .well-known endpoint
     res.set({
-      'Cache-Control': 'public, max-age=86400',
+      'Cache-Control': `public, max-age=${keyRotationService.getJwksCacheMaxAge()}`,
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET',
@@ -67,23 +81,67 @@ export const getPublicKey = asyncHandler(async (req: Request, res: Response): Pr
   }
 });
 
+export const getCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const kid = typeof req.query.kid === 'string' ? req.query.kid : undefined;
+  const key = kid ? keyService.getVerificationKey(kid) : keyService.getSigningKey();
+
+  if (!key || !key.certificate) {
+    res.status(404).json({
+      success: false,
+      error: 'Certificate not found'
+    });
+    return;
+  }
+
+  res.set({
+    'Cache-Control': `public, max-age=${keyRotationService.getJwksCacheMaxAge()}`,
+    'Content-Type': 'application/x-pem-file'
+  });
+
+  res.status(200).send(key.certificate);
+});
+
 export const getKeyInfo = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   try {
-    const keyId = keyService.getKeyId();
-    const publicKey = keyService.getPublicKey();
-    
+    const signingKey = keyService.getSigningKey();
+    const schedule = keyRotationService.getSchedule();
+
     // Get key metadata
     const jose = await import('jose');
-    const jwk = await jose.exportJWK(publicKey);
-    
+    const jwk = await jose.exportJWK(signingKey.publicKey);
+
+    const keys = await Promise.all(keyService.getKeys().map(async (key) => ({
+      kid: key.kid,
+      use: key.use,
+      alg: key.alg,
+      status: key.status,
+      thumbprints: await describeThumbprints(key.publicKey),
+      created_at: key.createdAt.toISOString(),
+      activated_at: key.activatedAt?.toISOString(),
+      retiring_at: key.retiringAt?.toISOString(),
+      retired_at: key.retiredAt?.toISOString(),
+      revoked_at: key.revokedAt?.toISOString()
+    })));
+
     const keyInfo = {
-      kid: keyId,
+      kid: signingKey.kid,
       kty: jwk.kty,
-      alg: 'RS256',
+      crv: jwk.crv,
+      alg: signingKey.alg,
       use: 'sig',
       key_ops: ['verify'],
-      created_at: new Date().toISOString(),
-      status: 'active'
+      created_at: signingKey.createdAt.toISOString(),
+      status: signingKey.status,
+      thumbprints: await describeThumbprints(signingKey.publicKey),
+      rotation: {
+        enabled: schedule.enabled,
+        interval_seconds: schedule.rotationIntervalSeconds,
+        jwks_cache_max_age_seconds: schedule.jwksCacheMaxAgeSeconds,
+        retirement_grace_seconds: schedule.retirementGraceSeconds,
+        last_rotation_at: schedule.lastRotationAt?.toISOString(),
+        next_rotation_at: schedule.nextRotationAt?.toISOString()
+      },
+      keys
     };
 
     res.status(200).json({
@@ -0,0 +1,251 @@
+import { Request, Response } from 'express';
+import * as jose from 'jose';
+import {
+  keyService, KeyringWriteError, SUPPORTED_ALGORITHMS, SUPPORTED_ENCRYPTION_ALGORITHMS
+} from '../services/keyService';
+import { KeyConflictError } from '../services/keyStore';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { ApiResponse, KeyAlgorithm, ManagedKey } from '../types';
+
+const describeKey = async (key: ManagedKey) => {
+  const jwk = await keyService.exportPublicJWK(key);
+
+  return {
+    kid: key.kid,
+    use: key.use,
+    alg: key.alg,
+    kty: jwk.kty,
+    crv: jwk.crv,
+    status: key.status,
+    fingerprint_sha256: await keyService.calculateThumbprint(key.publicKey),
+    created_at: key.createdAt.toISOString(),
+    activated_at: key.activatedAt?.toISOString(),
+    retiring_at: key.retiringAt?.toISOString(),
+    retired_at: key.retiredAt?.toISOString(),
+    revoked_at: key.revokedAt?.toISOString(),
+    revocation_reason: key.revocationReason,
+    'x5t#S256': jwk['x5t#S256']
+  };
+};
+
+const findKeyOrFail = async (kid: string): Promise<ManagedKey> => {
+  // The key may have been created by another replica
+  await keyService.refreshKeys(true);
+  const key = keyService.getKey(kid);
+  if (!key) {
+    throw new AppError(`Key ${kid} not found`, 404);
+  }
+  return key;
+};
+
+/**
+ * Map a key service error to a response: the key store failing to save a
+ * change is a 503, another replica changing the key first is a 409, anything
+ * else is the request's fault
+ */
+const toAppError = (error: any, statusCode: number, prefix: string = ''): AppError => {
+  if (error instanceof KeyringWriteError) {
+    return new AppError(error.message, 503);
+  }
+  if (error instanceof KeyConflictError) {
+    return new AppError(error.message, 409);
+  }
+  return new AppError(`${prefix}${error.message}`, statusCode);
+};
+
+const KEY_ALGORITHMS: KeyAlgorithm[] = [...SUPPORTED_ALGORITHMS, ...SUPPORTED_ENCRYPTION_ALGORITHMS];
+
+const parseAlgorithm = (alg: unknown): KeyAlgorithm | undefined => {
+  if (alg === undefined) {
+    return undefined;
+  }
+  if (!KEY_ALGORITHMS.includes(alg as KeyAlgorithm)) {
+    throw new AppError(`alg must be one of ${KEY_ALGORITHMS.join(', ')}`, 400);
+  }
+  return alg as KeyAlgorithm;
+};
+
+export const listKeys = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const keys = await Promise.all(keyService.getKeys().map(describeKey));
+
+  const response: ApiResponse<{ keys: any[] }> = {
+    success: true,
+    data: { keys },
+    message: 'Keys retrieved successfully'
+  };
+
+  res.status(200).json(response);
+});
+
+export const exportKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const key = await findKeyOrFail(req.params.kid);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      ...await describeKey(key),
+      jwk: await keyService.exportPublicJWK(key),
+      pem: await jose.exportSPKI(key.publicKey)
+    },
+    message: 'Public key exported successfully'
+  };
+
+  res.status(200).json(response);
+});
+
+export const importKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { pem, jwk, certificate, kid, status } = req.body;
+  const alg = parseAlgorithm(req.body.alg);
+
+  if (!pem && !jwk) {
+    throw new AppError('Either pem or jwk is required', 400);
+  }
+
+  if (status !== undefined && !['pending', 'active', 'retiring'].includes(status)) {
+    throw new AppError('status must be one of pending, active, retiring', 400);
+  }
+
+  let key: ManagedKey;
+  try {
+    key = await keyService.importKey({ pem, jwk, certificate }, { alg, kid, status });
+  } catch (error: any) {
+    throw toAppError(error, 400, 'Failed to import key: ');
+  }
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: await describeKey(key),
+    message: 'Key imported successfully'
+  };
+
+  res.status(201).json(response);
+});
+
+export const generateKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const alg = parseAlgorithm(req.body.alg);
+  const activate = req.body.activate === true;
+
+  let key: ManagedKey;
+  try {
+    key = await keyService.stageKey(alg);
+    if (activate) {
+      key = await keyService.activateKey(key.kid);
+    }
+  } catch (error: any) {
+    throw toAppError(error, 500);
+  }
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: await describeKey(key),
+    message: activate ? 'Key generated and activated successfully' : 'Key generated and staged successfully'
+  };
+
+  res.status(201).json(response);
+});
+
+export const getCertificateSigningRequest = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  await findKeyOrFail(req.params.kid);
+  const subject = typeof req.query.subject === 'string' ? req.query.subject : undefined;
+
+  let csr: string;
+  try {
+    csr = await keyService.createCertificateSigningRequest(req.params.kid, subject);
+  } catch (error: any) {
+    throw new AppError(`Failed to create CSR: ${error.message}`, 400);
+  }
+
+  res.set('Content-Type', 'application/pkcs10');
+  res.status(200).send(csr);
+});
+
+export const updateCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  await findKeyOrFail(req.params.kid);
+  const { certificate } = req.body;
+
+  if (!certificate || typeof certificate !== 'string') {
+    throw new AppError('certificate (PEM chain, leaf first) is required', 400);
+  }
+
+  let key: ManagedKey;
+  try {
+    key = await keyService.setCertificate(req.params.kid, certificate);
+  } catch (error: any) {
+    throw toAppError(error, 400, 'Failed to import certificate: ');
+  }
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: await describeKey(key),
+    message: 'Certificate imported successfully'
+  };
+
+  res.status(200).json(response);
+});
+
+export const activateKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  await findKeyOrFail(req.params.kid);
+
+  let key: ManagedKey;
+  try {
+    key = await keyService.activateKey(req.params.kid);
+  } catch (error: any) {
+    throw toAppError(error, 409);
+  }
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: await describeKey(key),
+    message: 'Key activated successfully'
+  };
+
+  res.status(200).json(response);
+});
+
+export const retireKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  await findKeyOrFail(req.params.kid);
+
+  let key: ManagedKey;
+  try {
+    key = await keyService.retireKey(req.params.kid);
+  } catch (error: any) {
+    throw toAppError(error, 409);
+  }
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: await describeKey(key),
+    message: 'Key retired successfully'
+  };
+
+  res.status(200).json(response);
+});
+
+export const revokeKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  await findKeyOrFail(req.params.kid);
+  const { reason } = req.body;
+
+  if (reason !== undefined && (typeof reason !== 'string' || reason.length > 200)) {
+    throw new AppError('reason must be a string of at most 200 characters', 400);
+  }
+
+  let result: { revoked: ManagedKey; replacement?: ManagedKey };
+  try {
+    result = await keyService.revokeKey(req.params.kid, reason);
+  } catch (error: any) {
+    throw toAppError(error, 409);
+  }
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      ...await describeKey(result.revoked),
+      replacement: result.replacement ? await describeKey(result.replacement) : undefined
+    },
+    message: result.replacement
+      ? `Key revoked and replaced by ${result.replacement.kid}`
+      : 'Key revoked successfully'
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,568 @@
+import { Request, Response } from 'express';
+import { jwtService } from '../services/jwtService';
+import { clientService } from '../services/clientService';
+import { authorizationCodeService, AuthorizationCodeError, AuthorizationGrant } from '../services/authorizationCodeService';
+import {
+  deviceAuthorizationService,
+  DeviceAuthorizationError,
+  DeviceGrant,
+  DEVICE_CODE_GRANT_TYPE
+} from '../services/deviceAuthorizationService';
+import { dpopService, DPoPError } from '../services/dpopService';
+import { mtlsService } from '../services/mtlsService';
+import { oidcService } from '../services/oidcService';
+import {
+  tokenExchangeService,
+  TokenExchangeError,
+  TOKEN_EXCHANGE_GRANT_TYPE
+} from '../services/tokenExchangeService';
+import { refreshTokenService } from '../services/refreshTokenService';
+import { revocationService } from '../services/revocationService';
+import { OAuthError, asyncHandler } from '../middleware/errorHandler';
+import { getRequestUrls } from '../middleware/auth';
+import { UserDocument, UserModel } from '../models/User';
+import { database } from '../utils/database';
+import {
+  ActorClaim,
+  DeviceAuthorizationResponse,
+  IntrospectionResponse,
+  OAuthClient,
+  OAuthTokenResponse,
+  TokenConfirmation
+} from '../types';
+
+/**
+ * Authenticate the calling client with HTTP Basic (client_secret_basic) or
+ * client_id and client_secret in the body (client_secret_post), RFC 6749 section 2.3.1,
+ * or with its TLS client certificate and client_id (RFC 8705 section 2).
+ * With allowPublic, a public client may identify itself with just its client_id.
+ */
+const authenticateClient = async (req: Request, { allowPublic = false } = {}): Promise<OAuthClient> => {
+  const authHeader = req.headers.authorization;
+  const body = req.body || {};
+  let clientId: unknown = body.client_id;
+  let clientSecret: unknown = body.client_secret;
+
+  if (authHeader?.startsWith('Basic ')) {
+    if (clientSecret !== undefined) {
+      throw new OAuthError('invalid_request', 'Use only one client authentication method');
+    }
+
+    const credentials = Buffer.from(authHeader.substring(6), 'base64').toString('utf8');
+    const separator = credentials.indexOf(':');
+    if (separator === -1) {
+      throw new OAuthError('invalid_client', 'Malformed Basic credentials', 401);
+    }
+
+    // Both parts are form-urlencoded before being joined
+    const decode = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '));
+    try {
+      clientId = decode(credentials.substring(0, separator));
+      clientSecret = decode(credentials.substring(separator + 1));
+    } catch {
+      throw new OAuthError('invalid_client', 'Malformed Basic credentials', 401);
+    }
+  }
+
+  if (clientSecret === undefined && typeof clientId === 'string' && clientId) {
+    const client = await clientService.getClient(clientId);
+
+    if (client?.tokenEndpointAuthMethod) {
+      if (!mtlsService.authenticate(client, mtlsService.getPresentedCertificate(req.socket))) {
+        throw new OAuthError('invalid_client', 'Client certificate authentication failed', 401);
+      }
+      return client;
+    }
+    if (!allowPublic || !client?.isPublic) {
+      throw new OAuthError('invalid_client', 'Client authentication is required', 401);
+    }
+    return client;
+  }
+
+  if (typeof clientId !== 'string' || typeof clientSecret !== 'string' || !clientId || !clientSecret) {
+    throw new OAuthError('invalid_client', 'Client authentication is required', 401);
+  }
+
+  const client = await clientService.authenticate(clientId, clientSecret);
+  if (!client) {
+    throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+  }
+  return client;
+};
+
+/**
+ * Verify the DPoP proof sent to the token endpoint, if any, and return the key
+ * binding for the issued token (RFC 9449 section 5)
+ */
+const verifyTokenRequestProof = async (req: Request, res: Response): Promise<TokenConfirmation | undefined> => {
+  const proof = req.headers.dpop;
+  if (proof === undefined) {
+    return undefined;
+  }
+
+  try {
+    if (typeof proof !== 'string' || !proof) {
+      throw new DPoPError('invalid_dpop_proof', 'Send a single DPoP proof');
+    }
+
+    const jkt = await dpopService.verifyProof(proof, { method: req.method, urls: getRequestUrls(req) });
+    if (dpopService.isNonceRequired()) {
+      res.set('DPoP-Nonce', dpopService.getNonce());
+    }
+    return { jkt };
+  } catch (error) {
+    if (error instanceof DPoPError) {
+      if (error.errorCode === 'use_dpop_nonce') {
+        res.set('DPoP-Nonce', dpopService.getNonce());
+      }
+      throw new OAuthError(error.errorCode, error.message);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Validate a requested scope against the scopes the client is allowed,
+ * returning the granted scopes (the fallback when no scope was requested)
+ */
+const grantScopes = (client: OAuthClient, scope: unknown, fallback: string[]): string[] => {
+  if (scope !== undefined && typeof scope !== 'string') {
+    throw new OAuthError('invalid_request', 'scope must be a space-delimited string');
+  }
+
+  const requested: string[] = scope ? scope.split(' ').filter(Boolean) : fallback;
+  const disallowed = requested.filter(value => !client.scopes.includes(value));
+  if (disallowed.length > 0) {
+    throw new OAuthError('invalid_scope', `Scopes not allowed for this client: ${disallowed.join(', ')}`);
+  }
+
+  return [...new Set(requested)];
+};
+
+interface UserTokenGrant {
+  scope?: string;
+  nonce?: string;
+  authTime: Date;
+  confirmation?: TokenConfirmation;
+}
+
+/**
+ * Issue an access token for a user who authorized a client, plus an ID token
+ * when the openid scope was granted. Also returns the access token's jti and exp.
+ */
+const issueUserTokens = async (
+  user: UserDocument,
+  client: OAuthClient,
+  grant: UserTokenGrant
+): Promise<{ response: OAuthTokenResponse; jti: string; exp: number }> => {
+  const tokenResponse = await jwtService.generateToken({
+    sub: user._id!.toString(),
+    username: user.username,
+    email: user.email
+  }, {
+    scope: grant.scope,
+    claims: {
+      client_id: client.clientId,
+      ...(grant.nonce ? { nonce: grant.nonce } : {})
+    },
+    confirmation: grant.confirmation
+  });
+
+  // OpenID Connect: an ID token for the user when the openid scope was granted
+  const scopes = grant.scope ? grant.scope.split(' ') : [];
+  const idToken = scopes.includes('openid')
+    ? await jwtService.generateIdToken(user._id!.toString(), {
+      clientId: client.clientId,
+      nonce: grant.nonce,
+      authTime: grant.authTime,
+      accessToken: tokenResponse.access_token,
+      claims: oidcService.getUserClaims(user, scopes)
+    })
+    : undefined;
+
+  return {
+    response: {
+      access_token: tokenResponse.access_token,
+      token_type: tokenResponse.token_type,
+      expires_in: tokenResponse.expires_in,
+      scope: grant.scope,
+      id_token: idToken
+    },
+    jti: tokenResponse.claims!.jti as string,
+    exp: tokenResponse.claims!.exp as number
+  };
+};
+
+/**
+ * Revoke one of our access tokens, for any of our audiences, when it was issued
+ * to the requesting client (RFC 7009 section 2.1)
+ */
+/**
+ * Revoke an access token issued to the client. Returns false when the token is
+ * not one of our access tokens.
+ */
+const revokeAccessToken = async (token: string, client: OAuthClient): Promise<boolean> => {
+  if (!token.includes('.')) {
+    return false;
+  }
+
+  let claims;
+  try {
+    claims = await jwtService.verifyTokenClaims(token, { anyAudience: true });
+  } catch {
+    // Invalid, expired, foreign or already revoked tokens need no further action
+    return false;
+  }
+
+  if (!claims.jti || !claims.exp) {
+    return false;
+  }
+  if ((claims.client_id ?? claims.azp) !== client.clientId) {
+    throw new OAuthError('unauthorized_client', 'Token was not issued to this client');
+  }
+
+  await revocationService.revokeToken({ jti: claims.jti, sub: claims.sub, exp: claims.exp, reason: 'revoked' });
+  return true;
+};
+
+/**
+ * End the login session of a refresh token. Refresh tokens are not issued to
+ * clients, so holding one is enough to revoke it. Returns false when the token
+ * is not one of our refresh tokens.
+ */
+const revokeRefreshToken = async (token: string): Promise<boolean> => {
+  if (!database.isDbConnected()) {
+    return false;
+  }
+  return refreshTokenService.revoke(token, 'revoked');
+};
+
+/**
+ * Client credentials grant (RFC 6749 section 4.4): a token issued to the client
+ * itself, for service-to-service calls. Without a scope parameter the client
+ * gets every scope it is allowed.
+ */
+const clientCredentialsGrant = async (req: Request, confirmation?: TokenConfirmation): Promise<OAuthTokenResponse> => {
+  const client = await authenticateClient(req);
+
+  if (!client.grantTypes.includes('client_credentials')) {
+    throw new OAuthError('unauthorized_client', 'Client is not allowed to use the client_credentials grant');
+  }
+
+  const grantedScope = grantScopes(client, req.body.scope, client.scopes).join(' ');
+  const tokenResponse = await jwtService.generateToken({ sub: client.clientId }, {
+    scope: grantedScope || undefined,
+    claims: { client_id: client.clientId },
+    confirmation
+  });
+
+  return {
+    access_token: tokenResponse.access_token,
+    token_type: tokenResponse.token_type,
+    expires_in: tokenResponse.expires_in,
+    scope: grantedScope || undefined
+  };
+};
+
+/**
+ * Authorization code grant (RFC 6749 section 4.1.3) with PKCE (RFC 7636)
+ */
+const authorizationCodeGrant = async (req: Request, confirmation?: TokenConfirmation): Promise<OAuthTokenResponse> => {
+  const client = await authenticateClient(req, { allowPublic: true });
+
+  if (!client.grantTypes.includes('authorization_code')) {
+    throw new OAuthError('unauthorized_client', 'Client is not allowed to use the authorization_code grant');
+  }
+
+  const { code, redirect_uri, code_verifier } = req.body;
+  if (typeof code !== 'string' || !code) {
+    throw new OAuthError('invalid_request', 'code is required');
+  }
+  if (typeof redirect_uri !== 'string' || !redirect_uri) {
+    throw new OAuthError('invalid_request', 'redirect_uri is required');
+  }
+  if (typeof code_verifier !== 'string' || !code_verifier) {
+    throw new OAuthError('invalid_request', 'code_verifier is required (PKCE)');
+  }
+  if (!database.isDbConnected()) {
+    throw new OAuthError('invalid_grant', 'Authorization codes require a database');
+  }
+
+  let grant: AuthorizationGrant;
+  try {
+    grant = await authorizationCodeService.redeem(code, client.clientId, redirect_uri, code_verifier);
+  } catch (error) {
+    if (error instanceof AuthorizationCodeError) {
+      throw new OAuthError('invalid_grant', error.message);
+    }
+    throw error;
+  }
+
+  const user = await UserModel.findById(grant.userId);
+  if (!user) {
+    throw new OAuthError('invalid_grant', 'The user who approved this code no longer exists');
+  }
+
+  const issued = await issueUserTokens(user, client, { ...grant, confirmation });
+  await authorizationCodeService.recordIssuedToken(code, issued.jti, issued.exp);
+
+  return issued.response;
+};
+
+/**
+ * Device authorization grant (RFC 8628 section 3.4): the device polls with its
+ * device_code until the user has approved or denied the request
+ */
+const deviceCodeGrant = async (req: Request, confirmation?: TokenConfirmation): Promise<OAuthTokenResponse> => {
+  const client = await authenticateClient(req, { allowPublic: true });
+
+  if (!client.grantTypes.includes(DEVICE_CODE_GRANT_TYPE)) {
+    throw new OAuthError('unauthorized_client', 'Client is not allowed to use the device_code grant');
+  }
+
+  const { device_code } = req.body;
+  if (typeof device_code !== 'string' || !device_code) {
+    throw new OAuthError('invalid_request', 'device_code is required');
+  }
+  if (!database.isDbConnected()) {
+    throw new OAuthError('invalid_grant', 'Device codes require a database');
+  }
+
+  let grant: DeviceGrant;
+  try {
+    grant = await deviceAuthorizationService.poll(device_code, client.clientId);
+  } catch (error) {
+    if (error instanceof DeviceAuthorizationError) {
+      throw new OAuthError(error.errorCode, error.message);
+    }
+    throw error;
+  }
+
+  const user = await UserModel.findById(grant.userId);
+  if (!user) {
+    throw new OAuthError('invalid_grant', 'The user who approved this request no longer exists');
+  }
+
+  const issued = await issueUserTokens(user, client, { ...grant, confirmation });
+  return issued.response;
+};
+
+/**
+ * Token exchange (RFC 8693 section 2.1): trade a subject token, and optionally
+ * an actor token, for a token with a narrower scope for another audience
+ */
+const tokenExchangeGrant = async (req: Request, confirmation?: TokenConfirmation): Promise<OAuthTokenResponse> => {
+  const client = await authenticateClient(req);
+
+  if (!client.grantTypes.includes(TOKEN_EXCHANGE_GRANT_TYPE)) {
+    throw new OAuthError('unauthorized_client', 'Client is not allowed to use the token exchange grant');
+  }
+
+  const {
+    subject_token, subject_token_type, actor_token, actor_token_type,
+    audience, scope, requested_token_type, requested_subject
+  } = req.body;
+
+  if (typeof subject_token !== 'string' || !subject_token) {
+    throw new OAuthError('invalid_request', 'subject_token is required');
+  }
+  if (typeof subject_token_type !== 'string' || !subject_token_type) {
+    throw new OAuthError('invalid_request', 'subject_token_type is required');
+  }
+  if (typeof audience !== 'string' || !audience) {
+    throw new OAuthError('invalid_request', 'audience is required (a single value)');
+  }
+  const optional = { actor_token, actor_token_type, scope, requested_token_type, requested_subject };
+  for (const [name, value] of Object.entries(optional)) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new OAuthError('invalid_request', `${name} must be a string`);
+    }
+  }
+
+  try {
+    return await tokenExchangeService.exchange(client, {
+      subjectToken: subject_token,
+      subjectTokenType: subject_token_type,
+      actorToken: actor_token || undefined,
+      actorTokenType: actor_token_type || undefined,
+      audience,
+      scope,
+      requestedTokenType: requested_token_type || undefined,
+      requestedSubject: requested_subject || undefined,
+      confirmation
+    });
+  } catch (error) {
+    if (error instanceof TokenExchangeError) {
+      throw new OAuthError(error.errorCode, error.message, error.statusCode);
+    }
+    throw error;
+  }
+};
+
+const introspectAccessToken = async (token: string): Promise<IntrospectionResponse | undefined> => {
+  if (!token.includes('.')) {
+    return undefined;
+  }
+
+  let claims;
+  try {
+    // Tokens issued for any audience can be introspected, not only JWT_AUDIENCE
+    claims = await jwtService.verifyTokenClaims(token, { anyAudience: true });
+  } catch {
+    return undefined;
+  }
+
+  return {
+    active: true,
+    scope: typeof claims.scope === 'string' ? claims.scope : undefined,
+    client_id: typeof claims.client_id === 'string' ? claims.client_id : undefined,
+    username: typeof claims.username === 'string' ? claims.username : undefined,
+    act: claims.act as ActorClaim | undefined,
+    cnf: claims.cnf as TokenConfirmation | undefined,
+    token_type: (claims.cnf as TokenConfirmation | undefined)?.jkt ? 'DPoP' : 'Bearer',
+    exp: claims.exp,
+    iat: claims.iat,
+    nbf: claims.nbf,
+    sub: claims.sub,
+    aud: claims.aud,
+    iss: claims.iss,
+    jti: claims.jti
+  };
+};
+
+const introspectRefreshToken = async (token: string): Promise<IntrospectionResponse | undefined> => {
+  if (!database.isDbConnected()) {
+    return undefined;
+  }
+
+  const refreshToken = await refreshTokenService.findActive(token);
+  if (!refreshToken) {
+    return undefined;
+  }
+
+  const user = await UserModel.findById(refreshToken.userId);
+  return {
+    active: true,
+    username: user?.username,
+    exp: Math.floor(refreshToken.expiresAt.getTime() / 1000),
+    iat: Math.floor(refreshToken.createdAt.getTime() / 1000),
+    sub: refreshToken.userId
+  };
+};
+
+/**
+ * Revoke an access token the calling client was issued, or a refresh token
+ * with its whole session (RFC 7009). token_type_hint only decides which kind
+ * of token is looked up first. The response is 200 whether or not the token
+ * was valid, so callers cannot probe which tokens exist.
+ */
+export const revokeToken = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const client = await authenticateClient(req, { allowPublic: true });
+  const { token, token_type_hint } = req.body || {};
+
+  if (typeof token !== 'string' || !token) {
+    throw new OAuthError('invalid_request', 'token is required');
+  }
+
+  if (token_type_hint === 'refresh_token') {
+    await revokeRefreshToken(token) || await revokeAccessToken(token, client);
+  } else {
+    await revokeAccessToken(token, client) || await revokeRefreshToken(token);
+  }
+
+  res.status(200).set('Cache-Control', 'no-store').end();
+});
+
+/**
+ * OAuth 2.0 token endpoint (RFC 6749 section 3.2), dispatching on grant_type
+ */
+export const issueToken = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { grant_type } = req.body || {};
+
+  if (typeof grant_type !== 'string' || !grant_type) {
+    throw new OAuthError('invalid_request', 'grant_type is required');
+  }
+
+  // Tokens requested with a DPoP proof are bound to its key, and tokens
+  // requested over mutual TLS to the client certificate (RFC 8705 section 3)
+  const proofConfirmation = await verifyTokenRequestProof(req, res);
+  const certificate = mtlsService.getPresentedCertificate(req.socket);
+  const confirmation: TokenConfirmation | undefined = certificate
+    ? { ...proofConfirmation, 'x5t#S256': certificate.thumbprint }
+    : proofConfirmation;
+
+  let response: OAuthTokenResponse;
+  switch (grant_type) {
+    case 'client_credentials':
+      response = await clientCredentialsGrant(req, confirmation);
+      break;
+    case 'authorization_code':
+      response = await authorizationCodeGrant(req, confirmation);
+      break;
+    case DEVICE_CODE_GRANT_TYPE:
+      response = await deviceCodeGrant(req, confirmation);
+      break;
+    case TOKEN_EXCHANGE_GRANT_TYPE:
+      response = await tokenExchangeGrant(req, confirmation);
+      break;
+    default:
+      throw new OAuthError('unsupported_grant_type', `Unsupported grant_type: ${grant_type}`);
+  }
+
+  res.status(200).set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' }).json(response);
+});
+
+/**
+ * Device authorization endpoint (RFC 8628 section 3.1): start a sign-in for a
+ * device without a browser. The user approves it at verification_uri on
+ * another device while the device polls POST /token.
+ */
+export const authorizeDevice = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const client = await authenticateClient(req, { allowPublic: true });
+
+  if (!client.grantTypes.includes(DEVICE_CODE_GRANT_TYPE)) {
+    throw new OAuthError('unauthorized_client', 'Client is not allowed to use the device_code grant');
+  }
+
+  const scopes = grantScopes(client, req.body.scope, []);
+  if (!database.isDbConnected()) {
+    throw new OAuthError('temporarily_unavailable', 'Device authorization requires a database connection', 503);
+  }
+
+  const authorization = await deviceAuthorizationService.createAuthorization(
+    client.clientId,
+    scopes.join(' ') || undefined
+  );
+  const verificationUri = `${oidcService.getBaseUrl(`${req.protocol}://${req.get('host')}`)}/device`;
+
+  const response: DeviceAuthorizationResponse = {
+    device_code: authorization.deviceCode,
+    user_code: authorization.userCode,
+    verification_uri: verificationUri,
+    verification_uri_complete: `${verificationUri}?user_code=${encodeURIComponent(authorization.userCode)}`,
+    expires_in: authorization.expiresIn,
+    interval: authorization.interval
+  };
+  res.status(200).set('Cache-Control', 'no-store').json(response);
+});
+
+/**
+ * Token introspection for resource servers that cannot verify tokens locally
+ * (RFC 7662). Invalid, expired, revoked and foreign tokens are all reported
+ * as { active: false } without further detail.
+ */
+export const introspectToken = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  await authenticateClient(req);
+
+  const { token, token_type_hint } = req.body || {};
+  if (typeof token !== 'string' || !token) {
+    throw new OAuthError('invalid_request', 'token is required');
+  }
+
+  const result = token_type_hint === 'refresh_token'
+    ? await introspectRefreshToken(token) || await introspectAccessToken(token)
+    : await introspectAccessToken(token) || await introspectRefreshToken(token);
+
+  const response: IntrospectionResponse = result || { active: false };
+  res.status(200).set('Cache-Control', 'no-store').json(response);
+});
@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { oidcService } from '../services/oidcService';
+import { keyRotationService } from '../services/keyRotationService';
+import { OAuthError, asyncHandler } from '../middleware/errorHandler';
+import { UserModel } from '../models/User';
+import { database } from '../utils/database';
+
+export const getOpenIdConfiguration = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  res.set({
+    'Cache-Control': `public, max-age=${keyRotationService.getJwksCacheMaxAge()}`,
+    'Access-Control-Allow-Origin': '*'
+  });
+
+  res.status(200).json(oidcService.getDiscoveryDocument(`${req.protocol}://${req.get('host')}`));
+});
+
+/**
+ * UserInfo endpoint (OIDC Core section 5.3): claims about the user the access
+ * token was issued for, limited to the token's scopes
+ */
+export const getUserInfo = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const scopes = req.user?.scope ? req.user.scope.split(' ') : [];
+
+  if (!scopes.includes('openid')) {
+    res.set('WWW-Authenticate', 'Bearer error="insufficient_scope", scope="openid"');
+    throw new OAuthError('insufficient_scope', 'The access token was not issued with the openid scope', 403);
+  }
+  if (!database.isDbConnected()) {
+    throw new OAuthError('temporarily_unavailable', 'User info requires a database connection', 503);
+  }
+
+  // The sub of a token from a trusted issuer is not a local user ID
+  const isLocalUser = !req.user!.externalIssuer && mongoose.isValidObjectId(req.user!.sub);
+  const user = isLocalUser ? await UserModel.findById(req.user!.sub) : null;
+  if (!user) {
+    res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+    throw new OAuthError('invalid_token', 'The access token subject is not a user', 401);
+  }
+
+  res.set('Cache-Control', 'no-store');
+  res.status(200).json({
+    sub: user._id!.toString(),
+    ...oidcService.getUserClaims(user, scopes)
+  });
+});
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { recipientService, CONTENT_ENCRYPTION_ALGORITHMS } from '../services/recipientService';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { ApiResponse, ContentEncryptionAlgorithm, EncryptionRecipient } from '../types';
+
+const describeRecipient = (recipient: EncryptionRecipient) => ({
+  audience: recipient.audience,
+  jwks_uri: recipient.jwksUri,
+  jwk: recipient.jwk,
+  enc: recipient.enc,
+  encrypt_by_default: recipient.encryptByDefault,
+  created_at: recipient.createdAt?.toISOString(),
+  updated_at: recipient.updatedAt?.toISOString()
+});
+
+export const listRecipients = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const recipients = await recipientService.listRecipients();
+
+  const response: ApiResponse<{ recipients: any[] }> = {
+    success: true,
+    data: { recipients: recipients.map(describeRecipient) },
+    message: 'Encryption recipients retrieved successfully'
+  };
+
+  res.status(200).json(response);
+});
+
+export const registerRecipient = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { audience, jwks_uri, jwk, enc, encrypt_by_default } = req.body;
+
+  if (!audience || typeof audience !== 'string') {
+    throw new AppError('audience is required', 400);
+  }
+  if (jwks_uri !== undefined && typeof jwks_uri !== 'string') {
+    throw new AppError('jwks_uri must be a string', 400);
+  }
+  if (jwk !== undefined && (typeof jwk !== 'object' || jwk === null || Array.isArray(jwk))) {
+    throw new AppError('jwk must be a JSON Web Key object', 400);
+  }
+  if (enc !== undefined && !CONTENT_ENCRYPTION_ALGORITHMS.includes(enc)) {
+    throw new AppError(`enc must be one of ${CONTENT_ENCRYPTION_ALGORITHMS.join(', ')}`, 400);
+  }
+  if (encrypt_by_default !== undefined && typeof encrypt_by_default !== 'boolean') {
+    throw new AppError('encrypt_by_default must be a boolean', 400);
+  }
+
+  let recipient: EncryptionRecipient;
+  try {
+    recipient = await recipientService.registerRecipient({
+      audience,
+      jwksUri: jwks_uri,
+      jwk,
+      enc: enc as ContentEncryptionAlgorithm | undefined,
+      encryptByDefault: encrypt_by_default
+    });
+  } catch (error: any) {
+    throw new AppError(`Failed to register recipient: ${error.message}`, 400);
+  }
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: describeRecipient(recipient),
+    message: 'Encryption recipient registered successfully'
+  };
+
+  res.status(200).json(response);
+});
+
+export const removeRecipient = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!await recipientService.removeRecipient(req.params.audience)) {
+    throw new AppError(`Recipient ${req.params.audience} not found`, 404);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: 'Encryption recipient removed successfully'
+  };
+
+  res.status(200).json(response);
+});
@@ -1,18 +1,58 @@
 import { Request, Response } from 'express';
 import { jwtService } from '../services/jwtService';
+import { RecipientKeyError } from '../services/recipientService';
+import { tokenPolicyService, TokenPolicyError, ParsedTokenRequest } from '../services/tokenPolicyService';
+import { tokenAnalysisService, TokenAnalysisError } from '../services/tokenAnalysisService';
+import { tokenBatchService, BatchTokenResult, ParsedBatchRequest } from '../services/tokenBatchService';
 import { asyncHandler } from '../middleware/errorHandler';
-import { TokenResponse, ApiResponse } from '../types';
+import { hasAdminKey } from '../middleware/auth';
+import { TokenResponse, ApiResponse, TokenAnalysisReport } from '../types';
+
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Write one NDJSON line, waiting for the client to catch up when the
+ * response buffer is full
+ */
+const writeLine = (res: Response, value: unknown): Promise<void> | void => {
+  if (res.destroyed || res.write(`${JSON.stringify(value)}\n`)) {
+    return;
+  }
+
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+};
 
 export const generateDemoToken = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-  const { username = 'demo-user', email = 'demo@example.com' } = req.body;
+  let request: ParsedTokenRequest;
+  try {
+    request = tokenPolicyService.parseTokenRequest(req.body);
+  } catch (error: any) {
+    if (!(error instanceof TokenPolicyError)) {
+      throw error;
+    }
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
 
   try {
-    // Generate a demo token without requiring database
+    // Generate a demo token without requiring database. Its demo issuer keeps it
+    // from authenticating anywhere but POST /api/token/validate.
     const tokenResponse = await jwtService.generateToken({
       sub: 'demo-user-id',
-      username: username,
-      email: email
-    });
+      username: request.username,
+      email: request.email
+    }, { ...request.options, demo: true });
 
     const response: ApiResponse<TokenResponse> = {
       success: true,
@@ -22,7 +62,7 @@ export const generateDemoToken = asyncHandler(async (req: Request, res: Response
 
     res.status(200).json(response);
   } catch (error: any) {
-    res.status(500).json({
+    res.status(error instanceof RecipientKeyError ? 400 : 500).json({
       success: false,
       error: error.message || 'Failed to generate demo token'
     });
@@ -41,7 +81,7 @@ export const validateDemoToken = asyncHandler(async (req: Request, res: Response
   }
 
   try {
-    const payload = await jwtService.verifyToken(token);
+    const payload = await jwtService.verifyToken(token, { allowDemo: true });
     const decoded = jwtService.decodeToken(token);
 
     const response: ApiResponse<{ valid: boolean; payload: any; decoded: any }> = {
@@ -68,3 +108,94 @@ export const validateDemoToken = asyncHandler(async (req: Request, res: Response
     res.status(401).json(response);
   }
 });
+
+/**
+ * Security audit of any JWT, ours or foreign: a report of findings by severity,
+ * and whether the signature verifies against our JWKS or the supplied jwks.
+ * Encrypted tokens are only decrypted for callers with the admin key.
+ */
+export const analyzeToken = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { token, jwks } = req.body || {};
+
+  if (typeof token !== 'string' || !token.trim()) {
+    res.status(400).json({
+      success: false,
+      error: 'Token is required'
+    });
+    return;
+  }
+
+  let report: TokenAnalysisReport;
+  try {
+    report = await tokenAnalysisService.analyze(token.trim(), { jwks, decrypt: hasAdminKey(req) });
+  } catch (error: any) {
+    if (!(error instanceof TokenAnalysisError)) {
+      throw error;
+    }
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  const response: ApiResponse<TokenAnalysisReport> = {
+    success: true,
+    data: report,
+    message: `Token analyzed: ${report.findings.length} finding(s), highest severity ${report.summary.highest_severity}`
+  };
+
+  res.status(200).json(response);
+});
+
+/**
+ * Mint many tokens at once for load and integration tests, from an array
+ * of claim sets or a template with a count. Tokens are streamed as NDJSON
+ * (format "ndjson" or Accept: application/x-ndjson) or returned as a JSON array.
+ */
+export const generateTokenBatch = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  let batch: ParsedBatchRequest;
+  try {
+    batch = tokenBatchService.parseBatchRequest(req.body);
+  } catch (error: any) {
+    if (!(error instanceof TokenPolicyError)) {
+      throw error;
+    }
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  const format = batch.format
+    || (req.accepts(['application/json', NDJSON_CONTENT_TYPE]) === NDJSON_CONTENT_TYPE ? 'ndjson' : 'json');
+
+  if (format === 'ndjson') {
+    res.status(200).set({ 'Content-Type': NDJSON_CONTENT_TYPE, 'Cache-Control': 'no-store' });
+    // Each line carries the token's index, since lines arrive in completion order
+    await tokenBatchService.mintBatch(batch.items, result => writeLine(res, result), () => res.destroyed);
+    res.end();
+    return;
+  }
+
+  const tokens: BatchTokenResult[] = new Array(batch.items.length);
+  await tokenBatchService.mintBatch(batch.items, result => {
+    tokens[result.index] = result;
+  });
+  const failed = tokens.filter(token => token.error).length;
+
+  const response: ApiResponse<{ count: number; failed: number; tokens: BatchTokenResult[] }> = {
+    success: true,
+    data: {
+      count: tokens.length,
+      failed,
+      tokens
+    },
+    message: failed > 0
+      ? `Generated ${tokens.length - failed} of ${tokens.length} tokens`
+      : `Generated ${tokens.length} tokens`
+  };
+
+  res.status(200).set('Cache-Control', 'no-store').json(response);
+});
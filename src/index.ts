@@ -2,6 +2,7 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
+import https from 'https';
 
 // Load environment variables
 dotenv.config();
@@ -9,12 +10,15 @@ dotenv.config();
 // Import services and middleware
 import { database } from './utils/database';
 import { keyService } from './services/keyService';
+import { keyRotationService } from './services/keyRotationService';
+import { mtlsService } from './services/mtlsService';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 
 // Import routes
 import authRoutes from './routes/authRoutes';
 import jwksRoutes from './routes/jwksRoutes';
 import tokenRoutes from './routes/tokenRoutes';
+import oauthRoutes from './routes/oauthRoutes';
 import docsRoutes from './routes/docsRoutes';
 
 class App {
@@ -71,7 +75,8 @@ class App {
       origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization']
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Admin-Key', 'DPoP'],
+      exposedHeaders: ['DPoP-Nonce', 'WWW-Authenticate']
     }));
 
     // Body parsing middleware
@@ -109,23 +114,60 @@ class App {
         endpoints: {
           demo_token: {
             generate: 'POST /api/token/generate',
-            validate: 'POST /api/token/validate'
+            validate: 'POST /api/token/validate',
+            batch: 'POST /api/token/batch (requires X-Admin-Key)',
+            analyze: 'POST /api/token/analyze'
           },
           auth: database.isDbConnected() ? {
             register: 'POST /api/auth/register',
             login: 'POST /api/auth/login',
             profile: 'GET /api/auth/profile (requires auth)',
-            refresh: 'POST /api/auth/refresh (requires auth)',
+            refresh: 'POST /api/auth/refresh',
+            logout: 'POST /api/auth/logout (requires auth)',
             validate: 'POST /api/auth/validate'
           } : {
             note: 'Database authentication endpoints unavailable (MongoDB not connected)'
           },
+          oauth: {
+            authorize: 'GET /authorize (authorization code flow with PKCE)',
+            token: 'POST /token (grant_type=client_credentials, authorization_code, device_code or token-exchange)',
+            device: 'POST /device/authorize (device authorization grant), verification page at GET /device',
+            revoke: 'POST /token/revoke',
+            introspect: 'POST /token/introspect (requires client authentication)',
+            'openid-configuration': 'GET /.well-known/openid-configuration',
+            userinfo: 'GET /userinfo (requires auth with the openid scope)'
+          },
           jwks: {
             jwks: 'GET /api/jwks',
             'well-known': 'GET /api/.well-known/jwks.json',
             'public-key': 'GET /api/public-key',
+            certificate: 'GET /api/certificate.pem',
             'key-info': 'GET /api/key-info'
           },
+          key_admin: {
+            list: 'GET /api/keys (requires X-Admin-Key)',
+            generate: 'POST /api/keys (requires X-Admin-Key)',
+            import: 'POST /api/keys/import (requires X-Admin-Key)',
+            export: 'GET /api/keys/:kid (requires X-Admin-Key)',
+            csr: 'GET /api/keys/:kid/csr (requires X-Admin-Key)',
+            certificate: 'PUT /api/keys/:kid/certificate (requires X-Admin-Key)',
+            activate: 'POST /api/keys/:kid/activate (requires X-Admin-Key)',
+            retire: 'POST /api/keys/:kid/retire (requires X-Admin-Key)',
+            revoke: 'POST /api/keys/:kid/revoke (requires X-Admin-Key)'
+          },
+          encryption_recipients: {
+            list: 'GET /api/recipients (requires X-Admin-Key)',
+            register: 'POST /api/recipients (requires X-Admin-Key)',
+            remove: 'DELETE /api/recipients/:audience (requires X-Admin-Key)'
+          },
+          oauth_clients: {
+            list: 'GET /api/clients (requires X-Admin-Key)',
+            register: 'POST /api/clients (requires X-Admin-Key)',
+            remove: 'DELETE /api/clients/:clientId (requires X-Admin-Key)'
+          },
+          audit: {
+            impersonations: 'GET /api/audit/impersonations (requires X-Admin-Key)'
+          },
           utility: {
             health: 'GET /health'
           }
@@ -164,6 +206,7 @@ class App {
     this.app.use('/api/docs', docsRoutes);   // API documentation routes
 
     // Token endpoint (OAuth2-style)
+    this.app.use(oauthRoutes);
     this.app.use('/token', tokenRoutes);
   }
 
@@ -186,15 +229,18 @@ class App {
       // Initialize cryptographic keys
       console.log('🔐 Initializing cryptographic keys...');
       await keyService.initializeKeys();
+      keyRotationService.start();
       
-      // Start the server
-      this.app.listen(this.port, () => {
+      // Start the server, over HTTPS with client certificates when TLS is configured
+      const tlsOptions = mtlsService.getServerOptions();
+      const baseUrl = `${tlsOptions ? 'https' : 'http'}://localhost:${this.port}`;
+      const onListening = () => {
         console.log('✅ JWT Generator API started successfully!');
-        console.log(`🌍 Server running on port ${this.port}`);
-        console.log(`📋 API Documentation: http://localhost:${this.port}/`);
-        console.log(`🔑 JWKS Endpoint: http://localhost:${this.port}/api/jwks`);
-        console.log(`🎯 Demo Token Generation: http://localhost:${this.port}/api/token/generate`);
-        console.log(`🏥 Health Check: http://localhost:${this.port}/health`);
+        console.log(`🌍 Server running on port ${this.port}${tlsOptions ? ' (HTTPS, client certificates requested)' : ''}`);
+        console.log(`📋 API Documentation: ${baseUrl}/`);
+        console.log(`🔑 JWKS Endpoint: ${baseUrl}/api/jwks`);
+        console.log(`🎯 Demo Token Generation: ${baseUrl}/api/token/generate`);
+        console.log(`🏥 Health Check: ${baseUrl}/health`);
         console.log(`🛠️  Environment: ${process.env.NODE_ENV || 'development'}`);
         
         if (database.isDbConnected()) {
@@ -202,7 +248,13 @@ class App {
         } else {
           console.log('⚠️  Database: Not connected (using demo token mode)');
         }
-      });
+      };
+
+      if (tlsOptions) {
+        https.createServer(tlsOptions, this.app).listen(this.port, onListening);
+      } else {
+        this.app.listen(this.port, onListening);
+      }
 
     } catch (error) {
       console.error('❌ Failed to start server:', error);
@@ -1,6 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
 import { jwtService } from '../services/jwtService';
+import { dpopService, DPoPError, DPOP_SIGNING_ALGORITHMS } from '../services/dpopService';
+import { oidcService } from '../services/oidcService';
+import { mtlsService } from '../services/mtlsService';
+import { trustedIssuerService } from '../services/trustedIssuerService';
 import { UserModel } from '../models/User';
+import { readSecret } from '../utils/secrets';
+import { JWTPayload } from '../types';
 
 // Extend Express Request interface
 declare global {
@@ -10,11 +17,86 @@ declare global {
         sub: string;
         username: string;
         email: string;
+        // Set from the access token, so it can be revoked on logout
+        jti?: string;
+        exp?: number;
+        scope?: string;
+        // Set for tokens from one of the TRUSTED_ISSUERS: their sub belongs to
+        // that issuer and is never looked up as a local user
+        externalIssuer?: string;
       };
     }
   }
 }
 
+export interface ExtractedToken {
+  scheme: 'Bearer' | 'DPoP';
+  token: string;
+}
+
+/**
+ * URLs a request may have been addressed to: as received, and under the public
+ * base URL (JWT_ISSUER) when the service runs behind a proxy
+ */
+export const getRequestUrls = (req: Request): string[] => {
+  const origin = `${req.protocol}://${req.get('host')}`;
+  const path = req.originalUrl.split('?')[0];
+  return [...new Set([`${origin}${path}`, `${oidcService.getBaseUrl(origin)}${path}`])];
+};
+
+/**
+ * The issuer of a token verified with TRUSTED_ISSUERS keys, undefined for our own tokens
+ */
+const getExternalIssuer = (payload: JWTPayload): string | undefined =>
+  trustedIssuerService.getIssuer(payload.iss) ? payload.iss : undefined;
+
+/**
+ * Verify a request's access token. Tokens bound to a client certificate
+ * (cnf["x5t#S256"]) must arrive over a connection presenting that certificate
+ * (RFC 8705 section 3). Tokens bound to a DPoP key (cnf.jkt) must be sent with
+ * the DPoP scheme and a proof signed with that key (RFC 9449 section 7).
+ */
+const verifyRequestToken = async (req: Request, res: Response, extracted: ExtractedToken): Promise<JWTPayload> => {
+  const payload = await jwtService.verifyToken(extracted.token);
+
+  const certificateThumbprint = payload.cnf?.['x5t#S256'];
+  if (certificateThumbprint && mtlsService.getPresentedCertificate(req.socket)?.thumbprint !== certificateThumbprint) {
+    throw new Error('Token is bound to a client certificate that was not presented');
+  }
+
+  const jkt = payload.cnf?.jkt;
+
+  if (!jkt) {
+    if (extracted.scheme === 'DPoP') {
+      throw new DPoPError('invalid_token', 'Token is not bound to a DPoP key; use the Bearer scheme');
+    }
+    return payload;
+  }
+
+  if (extracted.scheme !== 'DPoP') {
+    throw new DPoPError('invalid_token', 'Token is bound to a DPoP key; use the DPoP scheme with a DPoP proof');
+  }
+
+  const proof = req.headers.dpop;
+  if (typeof proof !== 'string' || !proof) {
+    throw new DPoPError('invalid_dpop_proof', 'DPoP proof is required');
+  }
+
+  const proofJkt = await dpopService.verifyProof(proof, {
+    method: req.method,
+    urls: getRequestUrls(req),
+    accessToken: extracted.token
+  });
+  if (proofJkt !== jkt) {
+    throw new DPoPError('invalid_dpop_proof', 'DPoP proof key does not match the key the token is bound to');
+  }
+
+  if (dpopService.isNonceRequired()) {
+    res.set('DPoP-Nonce', dpopService.getNonce());
+  }
+  return payload;
+};
+
 /**
  * Middleware to authenticate JWT tokens
  */
@@ -24,10 +106,9 @@ export const authenticateToken = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+    const extracted = extractToken(req);
 
-    if (!token) {
+    if (!extracted) {
       res.status(401).json({
         success: false,
         error: 'Access token is required'
@@ -35,19 +116,31 @@ export const authenticateToken = async (
       return;
     }
 
-    // Verify the token
-    const payload = await jwtService.verifyToken(token);
+    // Verify the token, and the DPoP proof for sender-constrained tokens
+    const payload = await verifyRequestToken(req, res, extracted);
     
     // Extract user information
     req.user = {
       sub: payload.sub,
       username: payload.username,
-      email: payload.email
+      email: payload.email,
+      jti: payload.jti,
+      exp: payload.exp,
+      scope: payload.scope,
+      externalIssuer: getExternalIssuer(payload)
     };
 
     next();
   } catch (error: any) {
     console.error('Token authentication failed:', error.message);
+
+    if (error instanceof DPoPError) {
+      res.set('WWW-Authenticate',
+        `DPoP error="${error.errorCode}", error_description="${error.message}", algs="${DPOP_SIGNING_ALGORITHMS.join(' ')}"`);
+      if (error.errorCode === 'use_dpop_nonce') {
+        res.set('DPoP-Nonce', dpopService.getNonce());
+      }
+    }
     
     res.status(401).json({
       success: false,
@@ -65,16 +158,16 @@ export const optionalAuth = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+    const extracted = extractToken(req);
 
-    if (token) {
+    if (extracted) {
       try {
-        const payload = await jwtService.verifyToken(token);
+        const payload = await verifyRequestToken(req, res, extracted);
         req.user = {
           sub: payload.sub,
           username: payload.username,
-          email: payload.email
+          email: payload.email,
+          externalIssuer: getExternalIssuer(payload)
         };
       } catch (error) {
         // Token is invalid, but we continue without authentication
@@ -106,6 +199,14 @@ export const validateUser = async (
       return;
     }
 
+    if (req.user.externalIssuer) {
+      res.status(403).json({
+        success: false,
+        error: 'Tokens from external issuers do not belong to a local user'
+      });
+      return;
+    }
+
     const user = await UserModel.findById(req.user.sub);
     
     if (!user) {
@@ -118,6 +219,7 @@ export const validateUser = async (
 
     // Update user information in request
     req.user = {
+      ...req.user,
       sub: user._id!.toString(),
       username: user.username,
       email: user.email
@@ -134,9 +236,71 @@ export const validateUser = async (
 };
 
 /**
- * Extract bearer token from request headers
+ * Middleware to protect admin endpoints with the ADMIN_API_KEY shared secret,
+ * sent in the X-Admin-Key header
+ */
+export const requireAdminKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const adminKey = readSecret('ADMIN_API_KEY');
+
+  if (!adminKey) {
+    res.status(503).json({
+      success: false,
+      error: 'Admin API is disabled (ADMIN_API_KEY is not set)'
+    });
+    return;
+  }
+
+  const providedKey = req.headers['x-admin-key'];
+  if (typeof providedKey !== 'string') {
+    res.status(401).json({
+      success: false,
+      error: 'Admin key is required'
+    });
+    return;
+  }
+
+  if (!isAdminKey(adminKey, providedKey)) {
+    res.status(403).json({
+      success: false,
+      error: 'Invalid admin key'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Whether the request carries the admin key, for endpoints that are public but
+ * reveal more to admins. False when the admin API is disabled.
+ */
+export const hasAdminKey = (req: Request): boolean => {
+  const adminKey = readSecret('ADMIN_API_KEY');
+  const providedKey = req.headers['x-admin-key'];
+  return !!adminKey && typeof providedKey === 'string' && isAdminKey(adminKey, providedKey);
+};
+
+/**
+ * Compare digests so the comparison is constant-time regardless of length
+ */
+const isAdminKey = (adminKey: string, providedKey: string): boolean => {
+  const expected = createHash('sha256').update(adminKey).digest();
+  const provided = createHash('sha256').update(providedKey).digest();
+  return timingSafeEqual(expected, provided);
+};
+
+/**
+ * Extract the access token and its scheme (Bearer, or DPoP for tokens bound to
+ * a DPoP key) from the Authorization header
  */
-export const extractToken = (req: Request): string | null => {
-  const authHeader = req.headers.authorization;
-  return authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+export const extractToken = (req: Request): ExtractedToken | null => {
+  const match = req.headers.authorization?.match(/^(Bearer|DPoP) +(\S+)$/i);
+  if (!match) {
+    return null;
+  }
+  return { scheme: match[1].toLowerCase() === 'dpop' ? 'DPoP' : 'Bearer', token: match[2] };
 };
@@ -14,12 +14,37 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * Error returned in the OAuth 2.0 error format (RFC 6749 section 5.2)
+ * by the OAuth endpoints
+ */
+export class OAuthError extends AppError {
+  public errorCode: string;
+
+  constructor(errorCode: string, description: string, statusCode: number = 400) {
+    super(description, statusCode);
+    this.errorCode = errorCode;
+  }
+}
+
 export const errorHandler = (
   error: Error | AppError,
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
+  if (error instanceof OAuthError) {
+    // RFC 6749 section 5.2: a failed client authentication names the expected scheme
+    if (error.errorCode === 'invalid_client' && error.statusCode === 401) {
+      res.set('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+    res.status(error.statusCode).set('Cache-Control', 'no-store').json({
+      error: error.errorCode,
+      error_description: error.message
+    });
+    return;
+  }
+
   let statusCode = 500;
   let message = 'Internal Server Error';
   let isOperational = false;
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface AuthorizationCodeDocument extends Document {
+  codeHash: string;
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  scope?: string;
+  nonce?: string;
+  authTime: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+  accessTokenJti?: string;
+  accessTokenExp?: number;
+}
+
+const authorizationCodeSchema = new Schema<AuthorizationCodeDocument>({
+  // SHA-256 of the code; the code itself is never stored
+  codeHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  clientId: {
+    type: String,
+    required: true
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  redirectUri: {
+    type: String,
+    required: true
+  },
+  // S256 PKCE challenge the code verifier must match
+  codeChallenge: {
+    type: String,
+    required: true
+  },
+  scope: String,
+  nonce: String,
+  authTime: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: Date,
+  // The token issued for the code, revoked if the code is replayed
+  accessTokenJti: String,
+  accessTokenExp: Number
+});
+
+authorizationCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AuthorizationCodeModel = mongoose.model<AuthorizationCodeDocument>(
+  'AuthorizationCode',
+  authorizationCodeSchema
+);
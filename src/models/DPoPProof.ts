@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface DPoPProofDocument extends Document {
+  proofHash: string;
+  expiresAt: Date;
+}
+
+const dpopProofSchema = new Schema<DPoPProofDocument>({
+  // SHA-256 of the proof's key thumbprint and jti
+  proofHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // After this the proof's iat is outside the accepted window anyway
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+dpopProofSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const DPoPProofModel = mongoose.model<DPoPProofDocument>('DPoPProof', dpopProofSchema);
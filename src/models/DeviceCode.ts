@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type DeviceCodeStatus = 'pending' | 'approved' | 'denied' | 'redeemed';
+
+export interface DeviceCodeDocument extends Document {
+  deviceCodeHash: string;
+  userCode: string;
+  clientId: string;
+  scope?: string;
+  status: DeviceCodeStatus;
+  userId?: string;
+  authTime?: Date;
+  interval: number;
+  lastPolledAt?: Date;
+  expiresAt: Date;
+}
+
+const deviceCodeSchema = new Schema<DeviceCodeDocument>({
+  // SHA-256 of the device code; the code itself is never stored
+  deviceCodeHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // Normalized user code (upper case, without the separator) typed in by the user
+  userCode: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  clientId: {
+    type: String,
+    required: true
+  },
+  scope: String,
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'denied', 'redeemed'],
+    default: 'pending'
+  },
+  // Set when a user approves the request
+  userId: String,
+  authTime: Date,
+  // Minimum seconds between polls, raised on slow_down
+  interval: {
+    type: Number,
+    required: true
+  },
+  lastPolledAt: Date,
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Kept for an hour after expiry so polling clients get expired_token rather than invalid_grant
+deviceCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 60 * 60 });
+
+export const DeviceCodeModel = mongoose.model<DeviceCodeDocument>('DeviceCode', deviceCodeSchema);
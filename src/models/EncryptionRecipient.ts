@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ContentEncryptionAlgorithm } from '../types';
+
+export interface EncryptionRecipientDocument extends Document {
+  audience: string;
+  jwksUri?: string;
+  jwk?: Record<string, any>;
+  enc: ContentEncryptionAlgorithm;
+  encryptByDefault: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const encryptionRecipientSchema = new Schema<EncryptionRecipientDocument>({
+  audience: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  jwksUri: String,
+  jwk: Schema.Types.Mixed,
+  enc: {
+    type: String,
+    required: true,
+    enum: ['A128GCM', 'A256GCM', 'A128CBC-HS256', 'A256CBC-HS512']
+  },
+  encryptByDefault: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+export const EncryptionRecipientModel = mongoose.model<EncryptionRecipientDocument>(
+  'EncryptionRecipient',
+  encryptionRecipientSchema
+);
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ImpersonationEventDocument extends Document {
+  // The support staff member who impersonated the user
+  actorSub: string;
+  actorUsername?: string;
+  // The impersonated user
+  subjectSub: string;
+  subjectUsername?: string;
+  clientId: string;
+  audience: string;
+  scope?: string;
+  // The issued token, so it can be revoked
+  jti: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const impersonationEventSchema = new Schema<ImpersonationEventDocument>({
+  actorSub: {
+    type: String,
+    required: true,
+    index: true
+  },
+  actorUsername: String,
+  subjectSub: {
+    type: String,
+    required: true,
+    index: true
+  },
+  subjectUsername: String,
+  clientId: {
+    type: String,
+    required: true
+  },
+  audience: {
+    type: String,
+    required: true
+  },
+  scope: String,
+  jti: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  // Audit entries are never updated or expired
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+export const ImpersonationEventModel = mongoose.model<ImpersonationEventDocument>(
+  'ImpersonationEvent',
+  impersonationEventSchema
+);
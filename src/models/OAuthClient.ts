@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface OAuthClientDocument extends Document {
+  clientId: string;
+  clientSecretHash?: string;
+  isPublic: boolean;
+  name?: string;
+  redirectUris: string[];
+  grantTypes: string[];
+  scopes: string[];
+  exchangeAudiences: string[];
+  allowImpersonation: boolean;
+  tokenEndpointAuthMethod?: 'tls_client_auth' | 'self_signed_tls_client_auth';
+  tlsClientAuthSubjectDn?: string;
+  tlsClientCertificateThumbprints: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const oauthClientSchema = new Schema<OAuthClientDocument>({
+  clientId: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  // SHA-256 of the client secret; the secret itself is never stored.
+  // Public clients and clients using a TLS certificate have no secret.
+  clientSecretHash: String,
+  isPublic: {
+    type: Boolean,
+    default: false
+  },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  redirectUris: {
+    type: [String],
+    default: []
+  },
+  grantTypes: {
+    type: [String],
+    default: []
+  },
+  scopes: {
+    type: [String],
+    default: []
+  },
+  // Token exchange policy
+  exchangeAudiences: {
+    type: [String],
+    default: []
+  },
+  allowImpersonation: {
+    type: Boolean,
+    default: false
+  },
+  // Mutual TLS client authentication (RFC 8705)
+  tokenEndpointAuthMethod: {
+    type: String,
+    enum: ['tls_client_auth', 'self_signed_tls_client_auth']
+  },
+  tlsClientAuthSubjectDn: String,
+  tlsClientCertificateThumbprints: {
+    type: [String],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+export const OAuthClientModel = mongoose.model<OAuthClientDocument>('OAuthClient', oauthClientSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type RefreshTokenStatus = 'active' | 'rotated' | 'revoked';
+
+export interface RefreshTokenDocument extends Document {
+  tokenHash: string;
+  familyId: string;
+  userId: string;
+  status: RefreshTokenStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  sessionExpiresAt: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  revocationReason?: string;
+}
+
+const refreshTokenSchema = new Schema<RefreshTokenDocument>({
+  // SHA-256 of the opaque token; the token itself is never stored
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // All tokens rotated from the same login share a family
+  familyId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['active', 'rotated', 'revoked'],
+    default: 'active'
+  },
+  createdAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  sessionExpiresAt: {
+    type: Date,
+    required: true
+  },
+  rotatedAt: Date,
+  revokedAt: Date,
+  revocationReason: String
+});
+
+// Rotated tokens are kept until the session ends so that their reuse is still detected
+refreshTokenSchema.index({ sessionExpiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshTokenModel = mongoose.model<RefreshTokenDocument>('RefreshToken', refreshTokenSchema);
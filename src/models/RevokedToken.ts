@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface RevokedTokenDocument extends Document {
+  jti: string;
+  sub?: string;
+  expiresAt: Date;
+  revokedAt: Date;
+  reason?: string;
+}
+
+const revokedTokenSchema = new Schema<RevokedTokenDocument>({
+  jti: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  sub: String,
+  // The revoked token's own exp; after it the token is rejected anyway
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    required: true
+  },
+  reason: String
+});
+
+// Entries are removed once the token they revoke has expired
+revokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RevokedTokenModel = mongoose.model<RevokedTokenDocument>('RevokedToken', revokedTokenSchema);
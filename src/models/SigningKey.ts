@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { KeyAlgorithm, KeyStatus, KeyUse } from '../types';
+
+export interface SigningKeyDocument extends Document {
+  kid: string;
+  use: KeyUse;
+  alg: KeyAlgorithm;
+  status: KeyStatus;
+  privateKey: string;
+  publicKey: string;
+  certificate?: string;
+  createdAt: Date;
+  activatedAt?: Date;
+  retiringAt?: Date;
+  retiredAt?: Date;
+  revokedAt?: Date;
+  revocationReason?: string;
+}
+
+const signingKeySchema = new Schema<SigningKeyDocument>({
+  kid: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  use: {
+    type: String,
+    enum: ['sig', 'enc'],
+    default: 'sig'
+  },
+  alg: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['pending', 'active', 'retiring', 'retired', 'revoked']
+  },
+  privateKey: {
+    type: String,
+    required: true
+  },
+  publicKey: {
+    type: String,
+    required: true
+  },
+  certificate: String,
+  createdAt: {
+    type: Date,
+    required: true
+  },
+  activatedAt: Date,
+  retiringAt: Date,
+  retiredAt: Date,
+  revokedAt: Date,
+  revocationReason: String
+});
+
+// At most one active key per use, so replicas starting together cannot each create their own
+signingKeySchema.index(
+  { use: 1, status: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' } }
+);
+
+export const SigningKeyModel = mongoose.model<SigningKeyDocument>('SigningKey', signingKeySchema);
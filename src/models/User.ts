@@ -6,6 +6,9 @@ export interface UserDocument extends Document {
   username: string;
   email: string;
   password: string;
+  // Staff roles and the scopes the user may be granted; managed in MongoDB only
+  roles: string[];
+  scopes: string[];
   createdAt?: Date;
   updatedAt?: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -31,6 +34,14 @@ const userSchema = new Schema<UserDocument>({
     type: String,
     required: true,
     minlength: 6
+  },
+  roles: {
+    type: [String],
+    default: []
+  },
+  scopes: {
+    type: [String],
+    default: []
   }
 }, {
   timestamps: true
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { register, login, getProfile, refreshToken, validateToken } from '../controllers/authController';
+import { register, login, getProfile, refreshToken, logout, validateToken } from '../controllers/authController';
 import { authenticateToken, validateUser } from '../middleware/auth';
 
 const router = Router();
@@ -8,9 +8,10 @@ const router = Router();
 router.post('/register', register);
 router.post('/login', login);
 router.post('/validate', validateToken);
+router.post('/refresh', refreshToken);
 
 // Protected routes
 router.get('/profile', authenticateToken, validateUser, getProfile);
-router.post('/refresh', authenticateToken, validateUser, refreshToken);
+router.post('/logout', authenticateToken, logout);
 
 export default router;
@@ -1,5 +1,13 @@
 import { Router } from 'express';
-import { getJWKS, getWellKnownJWKS, getPublicKey, getKeyInfo } from '../controllers/jwksController';
+import { getJWKS, getWellKnownJWKS, getPublicKey, getCertificate, getKeyInfo } from '../controllers/jwksController';
+import {
+  listKeys, exportKey, importKey, generateKey, activateKey, retireKey, revokeKey,
+  getCertificateSigningRequest, updateCertificate
+} from '../controllers/keyAdminController';
+import { listRecipients, registerRecipient, removeRecipient } from '../controllers/recipientController';
+import { listClients, registerClient, removeClient } from '../controllers/clientController';
+import { listImpersonations } from '../controllers/auditController';
+import { requireAdminKey } from '../middleware/auth';
 
 const router = Router();
 
@@ -11,6 +19,31 @@ router.get('/.well-known/jwks.json', getWellKnownJWKS);
 // Public key endpoints
 router.get('/public-key', getPublicKey);
 router.get('/public-key.pem', getPublicKey);
+router.get('/certificate.pem', getCertificate);
 router.get('/key-info', getKeyInfo);
 
+// Key administration (requires X-Admin-Key)
+router.get('/keys', requireAdminKey, listKeys);
+router.post('/keys', requireAdminKey, generateKey);
+router.post('/keys/import', requireAdminKey, importKey);
+router.get('/keys/:kid', requireAdminKey, exportKey);
+router.get('/keys/:kid/csr', requireAdminKey, getCertificateSigningRequest);
+router.put('/keys/:kid/certificate', requireAdminKey, updateCertificate);
+router.post('/keys/:kid/activate', requireAdminKey, activateKey);
+router.post('/keys/:kid/retire', requireAdminKey, retireKey);
+router.post('/keys/:kid/revoke', requireAdminKey, revokeKey);
+
+// Encrypted token recipients (requires X-Admin-Key)
+router.get('/recipients', requireAdminKey, listRecipients);
+router.post('/recipients', requireAdminKey, registerRecipient);
+router.delete('/recipients/:audience', requireAdminKey, removeRecipient);
+
+// OAuth clients (requires X-Admin-Key)
+router.get('/clients', requireAdminKey, listClients);
+router.post('/clients', requireAdminKey, registerClient);
+router.delete('/clients/:clientId', requireAdminKey, removeClient);
+
+// Impersonation audit log (requires X-Admin-Key)
+router.get('/audit/impersonations', requireAdminKey, listImpersonations);
+
 export default router;
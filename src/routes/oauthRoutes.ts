@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { authorizeDevice, introspectToken, issueToken, revokeToken } from '../controllers/oauthController';
+import { showAuthorizePage, submitAuthorizePage } from '../controllers/authorizeController';
+import { showDevicePage, submitDevicePage } from '../controllers/deviceController';
+import { getOpenIdConfiguration, getUserInfo } from '../controllers/oidcController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// OAuth 2.0 endpoints (accept form-encoded or JSON bodies)
+router.post('/token', issueToken);
+router.post('/token/revoke', revokeToken);
+router.post('/token/introspect', introspectToken);
+
+// Authorization endpoint with the hosted sign-in page
+router.get('/authorize', showAuthorizePage);
+router.post('/authorize', submitAuthorizePage);
+
+// Device authorization grant: the device starts the flow, the user approves on the verification page
+router.post('/device/authorize', authorizeDevice);
+router.get('/device', showDevicePage);
+router.post('/device', submitDevicePage);
+
+// OpenID Connect
+router.get('/.well-known/openid-configuration', getOpenIdConfiguration);
+router.get('/userinfo', authenticateToken, getUserInfo);
+router.post('/userinfo', authenticateToken, getUserInfo);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
-import { generateDemoToken, validateDemoToken } from '../controllers/tokenController';
+import { analyzeToken, generateDemoToken, generateTokenBatch, validateDemoToken } from '../controllers/tokenController';
+import { requireAdminKey } from '../middleware/auth';
 
 const router = Router();
 
@@ -7,4 +8,10 @@ const router = Router();
 router.post('/generate', generateDemoToken);
 router.post('/validate', validateDemoToken);
 
+// Bulk token minting for load tests (requires X-Admin-Key)
+router.post('/batch', requireAdminKey, generateTokenBatch);
+
+// Security audit of any JWT
+router.post('/analyze', analyzeToken);
+
 export default router;
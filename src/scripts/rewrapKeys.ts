@@ -0,0 +1,44 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+import { keyService } from '../services/keyService';
+import { database } from '../utils/database';
+import { readSecret } from '../utils/secrets';
+
+/**
+ * Re-encrypt the keyring's private keys under a new passphrase.
+ *
+ * The current passphrase is read from KEY_PASSPHRASE (or KEY_PASSPHRASE_FILE)
+ * and the new one from NEW_KEY_PASSPHRASE (or NEW_KEY_PASSPHRASE_FILE).
+ * Pass --decrypt to store the keys without encryption.
+ */
+const main = async (): Promise<void> => {
+  const decrypt = process.argv.includes('--decrypt');
+  const newPassphrase = readSecret('NEW_KEY_PASSPHRASE');
+
+  if (!newPassphrase && !decrypt) {
+    throw new Error('NEW_KEY_PASSPHRASE or NEW_KEY_PASSPHRASE_FILE is required (or pass --decrypt)');
+  }
+
+  // The mongodb key store needs the same connection the server opens at startup
+  const useDatabase = process.env.KEY_STORE === 'mongodb';
+  if (useDatabase) {
+    await database.connect();
+  }
+
+  try {
+    await keyService.rewrapKeys(decrypt ? undefined : newPassphrase);
+  } finally {
+    if (useDatabase) {
+      await database.disconnect();
+    }
+  }
+  console.log('✅ Update KEY_PASSPHRASE before restarting the server');
+};
+
+main().catch((error) => {
+  console.error('❌ Failed to re-wrap keys:', error.message);
+  process.exit(1);
+});
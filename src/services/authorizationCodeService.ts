@@ -0,0 +1,163 @@
+import { createHash, randomBytes } from 'crypto';
+import { database } from '../utils/database';
+import { AuthorizationCodeModel } from '../models/AuthorizationCode';
+import { revocationService } from './revocationService';
+
+// Codes are exchanged right after the redirect, so they only need to live briefly
+const AUTHORIZATION_CODE_TTL_MS = 60 * 1000;
+
+// RFC 7636 section 4.1: 43-128 unreserved characters
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9._~-]{43,128}$/;
+
+// base64url of a SHA-256 digest
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Thrown when an authorization code cannot be exchanged (invalid_grant)
+ */
+export class AuthorizationCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthorizationCodeError';
+  }
+}
+
+export interface AuthorizationRequest {
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  scope?: string;
+  nonce?: string;
+  authTime: Date;
+}
+
+export type AuthorizationGrant = AuthorizationRequest;
+
+export class AuthorizationCodeService {
+  /**
+   * Whether a code_challenge has the shape of an S256 challenge
+   */
+  isValidCodeChallenge(codeChallenge: string): boolean {
+    return CODE_CHALLENGE_PATTERN.test(codeChallenge);
+  }
+
+  /**
+   * Issue a single-use authorization code for an approved authorization request
+   */
+  async createCode(request: AuthorizationRequest): Promise<string> {
+    this.assertConnected();
+
+    const code = randomBytes(32).toString('base64url');
+    await AuthorizationCodeModel.create({
+      ...request,
+      codeHash: this.hash(code),
+      expiresAt: new Date(Date.now() + AUTHORIZATION_CODE_TTL_MS)
+    });
+
+    return code;
+  }
+
+  /**
+   * Exchange a code for the authorization it represents. The code must be
+   * presented by the client it was issued to, with the same redirect_uri and the
+   * PKCE verifier for its challenge; a request failing these checks leaves the
+   * code unused. A replayed code revokes the token that was issued for it
+   * (RFC 6749 section 4.1.2).
+   */
+  async redeem(code: string, clientId: string, redirectUri: string, codeVerifier: string): Promise<AuthorizationGrant> {
+    this.assertConnected();
+
+    const codeHash = this.hash(code);
+    const now = new Date();
+
+    const existing = await AuthorizationCodeModel.findOne({ codeHash });
+    if (!existing) {
+      throw new AuthorizationCodeError('Invalid authorization code');
+    }
+    if (existing.clientId !== clientId) {
+      throw new AuthorizationCodeError('Authorization code was issued to another client');
+    }
+    if (existing.redirectUri !== redirectUri) {
+      throw new AuthorizationCodeError('redirect_uri does not match the authorization request');
+    }
+    if (!CODE_VERIFIER_PATTERN.test(codeVerifier) || this.challengeFor(codeVerifier) !== existing.codeChallenge) {
+      throw new AuthorizationCodeError('code_verifier does not match the code_challenge');
+    }
+    if (existing.usedAt) {
+      return this.rejectReplay(codeHash);
+    }
+    if (existing.expiresAt.getTime() <= now.getTime()) {
+      throw new AuthorizationCodeError('Authorization code has expired');
+    }
+
+    // Claim the code atomically so it can only be exchanged once
+    const claimed = await AuthorizationCodeModel.findOneAndUpdate(
+      { codeHash, usedAt: { $exists: false } },
+      { $set: { usedAt: now } },
+      { new: true }
+    );
+    if (!claimed) {
+      return this.rejectReplay(codeHash);
+    }
+
+    return {
+      clientId: claimed.clientId,
+      userId: claimed.userId,
+      redirectUri: claimed.redirectUri,
+      codeChallenge: claimed.codeChallenge,
+      scope: claimed.scope,
+      nonce: claimed.nonce,
+      authTime: claimed.authTime
+    };
+  }
+
+  /**
+   * Remember the token issued for a code, so it can be revoked if the code is replayed
+   */
+  async recordIssuedToken(code: string, jti: string, exp: number): Promise<void> {
+    this.assertConnected();
+
+    await AuthorizationCodeModel.updateOne(
+      { codeHash: this.hash(code) },
+      { $set: { accessTokenJti: jti, accessTokenExp: exp } }
+    );
+  }
+
+  /**
+   * Helper methods
+   */
+  private async rejectReplay(codeHash: string): Promise<never> {
+    // Read the code again: the token may have been recorded since it was first loaded
+    const used = await AuthorizationCodeModel.findOne({ codeHash });
+
+    if (used?.accessTokenJti && used.accessTokenExp) {
+      await revocationService.revokeToken({
+        jti: used.accessTokenJti,
+        sub: used.userId,
+        exp: used.accessTokenExp,
+        reason: 'code_reuse'
+      });
+    }
+    console.warn(`[SECURITY] Authorization code reuse detected for client ${used?.clientId}; ` +
+      'revoked the token issued for it');
+    throw new AuthorizationCodeError('Authorization code has already been used');
+  }
+
+  private challengeFor(codeVerifier: string): string {
+    return createHash('sha256').update(codeVerifier).digest('base64url');
+  }
+
+  private hash(code: string): string {
+    return createHash('sha256').update(code).digest('hex');
+  }
+
+  private assertConnected(): void {
+    if (!database.isDbConnected()) {
+      throw new Error('Authorization codes require a MongoDB connection');
+    }
+  }
+}
+
+// Singleton instance
+export const authorizationCodeService = new AuthorizationCodeService();
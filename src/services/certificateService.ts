@@ -0,0 +1,168 @@
+import 'reflect-metadata';
+import * as x509 from '@peculiar/x509';
+import * as jose from 'jose';
+import { createHash, createPrivateKey, createPublicKey, randomBytes, webcrypto } from 'crypto';
+import { durationToSeconds } from '../utils/duration';
+import { SigningAlgorithm } from '../types';
+
+x509.cryptoProvider.set(webcrypto as any);
+
+interface WebCryptoParams {
+  importParams: any;
+  signingAlgorithm: any;
+}
+
+// WebCrypto parameters used to self-sign a certificate with each JWS algorithm
+const WEBCRYPTO_PARAMS: Record<SigningAlgorithm, WebCryptoParams> = {
+  RS256: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    signingAlgorithm: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+  },
+  PS256: {
+    importParams: { name: 'RSA-PSS', hash: 'SHA-256' },
+    signingAlgorithm: { name: 'RSA-PSS', hash: 'SHA-256', saltLength: 32 }
+  },
+  ES256: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    signingAlgorithm: { name: 'ECDSA', hash: 'SHA-256' }
+  },
+  ES384: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-384' },
+    signingAlgorithm: { name: 'ECDSA', hash: 'SHA-384' }
+  },
+  EdDSA: {
+    importParams: { name: 'Ed25519' },
+    signingAlgorithm: { name: 'Ed25519' }
+  }
+};
+
+export interface CertificateThumbprints {
+  x5c: string[];
+  x5t: string;
+  'x5t#S256': string;
+}
+
+export class CertificateService {
+  private subject: string;
+  private validitySeconds: number;
+
+  constructor() {
+    this.subject = process.env.CERT_SUBJECT || `CN=${process.env.JWT_ISSUER || 'jwt-generator-app'}`;
+    this.validitySeconds = durationToSeconds(process.env.CERT_VALIDITY || '365d', 365 * 24 * 60 * 60);
+  }
+
+  /**
+   * Create a self-signed certificate for a key pair, signed with the key's own algorithm
+   */
+  async createSelfSignedCertificate(
+    privateKey: jose.KeyLike,
+    publicKey: jose.KeyLike,
+    alg: SigningAlgorithm,
+    subject: string = this.subject
+  ): Promise<string> {
+    const notBefore = new Date();
+    const notAfter = new Date(notBefore.getTime() + this.validitySeconds * 1000);
+
+    const certificate = await x509.X509CertificateGenerator.createSelfSigned({
+      serialNumber: this.generateSerialNumber(),
+      name: subject,
+      notBefore,
+      notAfter,
+      keys: await this.toCryptoKeyPair(privateKey, publicKey, alg),
+      signingAlgorithm: WEBCRYPTO_PARAMS[alg].signingAlgorithm,
+      extensions: [
+        new x509.BasicConstraintsExtension(false, undefined, true),
+        new x509.KeyUsagesExtension(x509.KeyUsageFlags.digitalSignature, true)
+      ]
+    });
+
+    return certificate.toString('pem');
+  }
+
+  /**
+   * Create a PKCS#10 certificate signing request for a key pair, to be signed by a CA
+   */
+  async createCertificateSigningRequest(
+    privateKey: jose.KeyLike,
+    publicKey: jose.KeyLike,
+    alg: SigningAlgorithm,
+    subject: string = this.subject
+  ): Promise<string> {
+    const csr = await x509.Pkcs10CertificateRequestGenerator.create({
+      name: subject,
+      keys: await this.toCryptoKeyPair(privateKey, publicKey, alg),
+      signingAlgorithm: WEBCRYPTO_PARAMS[alg].signingAlgorithm,
+      extensions: [
+        new x509.KeyUsagesExtension(x509.KeyUsageFlags.digitalSignature, true)
+      ]
+    });
+
+    return csr.toString('pem');
+  }
+
+  /**
+   * Parse a PEM certificate chain (leaf first) and check that the leaf
+   * certificate belongs to the given public key. Returns the normalized PEM bundle.
+   */
+  async validateCertificateChain(chainPem: string, publicKey: jose.KeyLike): Promise<string> {
+    const certificates = this.parseChain(chainPem);
+    if (certificates.length === 0) {
+      throw new Error('No certificate found in PEM');
+    }
+
+    const leafSpki = Buffer.from(certificates[0].publicKey.rawData);
+    const keySpki = createPublicKey(await jose.exportSPKI(publicKey)).export({ type: 'spki', format: 'der' });
+
+    if (!leafSpki.equals(keySpki)) {
+      throw new Error('Certificate public key does not match the signing key');
+    }
+
+    if (certificates[0].notAfter.getTime() < Date.now()) {
+      throw new Error('Certificate has expired');
+    }
+
+    return certificates.map(certificate => certificate.toString('pem')).join('\n');
+  }
+
+  /**
+   * Compute the x5c chain and x5t / x5t#S256 thumbprints for a JWK (RFC 7517 section 4.7-4.9)
+   */
+  getJwkCertificateParams(chainPem: string): CertificateThumbprints {
+    const certificates = this.parseChain(chainPem);
+    const leaf = Buffer.from(certificates[0].rawData);
+
+    return {
+      x5c: certificates.map(certificate => Buffer.from(certificate.rawData).toString('base64')),
+      x5t: createHash('sha1').update(leaf).digest('base64url'),
+      'x5t#S256': createHash('sha256').update(leaf).digest('base64url')
+    };
+  }
+
+  /**
+   * Helper methods
+   */
+  private parseChain(chainPem: string): x509.X509Certificate[] {
+    const blocks = chainPem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+    return blocks.map(block => new x509.X509Certificate(block));
+  }
+
+  private async toCryptoKeyPair(privateKey: jose.KeyLike, publicKey: jose.KeyLike, alg: SigningAlgorithm): Promise<any> {
+    const { importParams } = WEBCRYPTO_PARAMS[alg];
+    const pkcs8 = createPrivateKey(await jose.exportPKCS8(privateKey)).export({ type: 'pkcs8', format: 'der' });
+    const spki = createPublicKey(await jose.exportSPKI(publicKey)).export({ type: 'spki', format: 'der' });
+
+    return {
+      privateKey: await webcrypto.subtle.importKey('pkcs8', pkcs8, importParams, false, ['sign']),
+      publicKey: await webcrypto.subtle.importKey('spki', spki, importParams, true, ['verify'])
+    };
+  }
+
+  private generateSerialNumber(): string {
+    const serial = randomBytes(16);
+    serial[0] &= 0x7f; // Keep the serial number positive
+    return serial.toString('hex');
+  }
+}
+
+// Singleton instance
+export const certificateService = new CertificateService();
@@ -0,0 +1,257 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { database } from '../utils/database';
+import { OAuthClientModel } from '../models/OAuthClient';
+import { OAuthClient } from '../types';
+import { DEVICE_CODE_GRANT_TYPE } from './deviceAuthorizationService';
+import { TOKEN_EXCHANGE_GRANT_TYPE } from './tokenExchangeService';
+import { mtlsService, TLS_CLIENT_AUTH_METHODS } from './mtlsService';
+
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9._-]{1,100}$/;
+
+// Grant types a client can be registered for
+export const SUPPORTED_GRANT_TYPES = [
+  'client_credentials', 'authorization_code', DEVICE_CODE_GRANT_TYPE, TOKEN_EXCHANGE_GRANT_TYPE
+];
+
+// Grants a public client can use, since it cannot authenticate
+const PUBLIC_CLIENT_GRANT_TYPES = ['authorization_code', DEVICE_CODE_GRANT_TYPE];
+
+// How confidential clients can authenticate at the token endpoint
+const TOKEN_ENDPOINT_AUTH_METHODS = ['client_secret_basic', 'client_secret_post', ...TLS_CLIENT_AUTH_METHODS];
+
+// RFC 6749 section 3.3 scope-token characters
+const SCOPE_TOKEN_PATTERN = /^[\x21\x23-\x5B\x5D-\x7E]+$/;
+
+export interface ClientRegistration {
+  clientId?: string;
+  name?: string;
+  isPublic?: boolean;
+  redirectUris?: string[];
+  grantTypes?: string[];
+  scopes?: string[];
+  exchangeAudiences?: string[];
+  allowImpersonation?: boolean;
+  tokenEndpointAuthMethod?: string;
+  tlsClientAuthSubjectDn?: string;
+  // PEM certificates for self_signed_tls_client_auth
+  tlsClientCertificates?: string[];
+}
+
+export interface RegisteredClient {
+  client: OAuthClient;
+  // Only returned at registration; afterwards just its hash is known.
+  // Public clients and clients using a TLS certificate have none.
+  clientSecret?: string;
+}
+
+export class ClientService {
+  // Used instead of MongoDB when the database is not connected
+  private clients = new Map<string, OAuthClient>();
+
+  /**
+   * Register a client with a newly generated secret, or with the TLS client
+   * certificate it will authenticate with. Secrets are 256-bit random values,
+   * so a plain SHA-256 hash is enough to store them safely.
+   */
+  async registerClient(registration: ClientRegistration): Promise<RegisteredClient> {
+    const clientId = registration.clientId || randomBytes(16).toString('hex');
+    if (!CLIENT_ID_PATTERN.test(clientId)) {
+      throw new Error('client_id may only contain letters, digits, ".", "_" and "-" (at most 100)');
+    }
+    if (await this.getClient(clientId)) {
+      throw new Error(`Client ${clientId} already exists`);
+    }
+
+    const isPublic = registration.isPublic === true;
+    const grantTypes = registration.grantTypes || [isPublic ? 'authorization_code' : 'client_credentials'];
+    const unsupported = grantTypes.filter(grantType => !SUPPORTED_GRANT_TYPES.includes(grantType));
+    if (unsupported.length > 0) {
+      throw new Error(`Unsupported grant types: ${unsupported.join(', ')}`);
+    }
+    if (isPublic && grantTypes.some(grantType => !PUBLIC_CLIENT_GRANT_TYPES.includes(grantType))) {
+      throw new Error(`Public clients can only use ${PUBLIC_CLIENT_GRANT_TYPES.join(', ')}`);
+    }
+
+    const redirectUris = registration.redirectUris || [];
+    redirectUris.forEach(uri => this.assertValidRedirectUri(uri));
+    if (grantTypes.includes('authorization_code') && redirectUris.length === 0) {
+      throw new Error('redirect_uris are required for the authorization_code grant');
+    }
+
+    const scopes = registration.scopes || [];
+    if (scopes.some(scope => !SCOPE_TOKEN_PATTERN.test(scope))) {
+      throw new Error('scopes must not contain spaces, quotes or backslashes');
+    }
+
+    const exchangeAudiences = registration.exchangeAudiences || [];
+    const allowImpersonation = registration.allowImpersonation === true;
+    if ((exchangeAudiences.length > 0 || allowImpersonation) && !grantTypes.includes(TOKEN_EXCHANGE_GRANT_TYPE)) {
+      throw new Error('exchange_audiences and impersonation require the token exchange grant');
+    }
+    if (grantTypes.includes(TOKEN_EXCHANGE_GRANT_TYPE) && exchangeAudiences.length === 0) {
+      throw new Error('exchange_audiences are required for the token exchange grant');
+    }
+
+    const tlsClientAuth = this.validateTlsClientAuth(registration, isPublic);
+    const clientSecret = isPublic || tlsClientAuth.tokenEndpointAuthMethod
+      ? undefined
+      : randomBytes(32).toString('base64url');
+    const client: OAuthClient = {
+      clientId,
+      clientSecretHash: clientSecret ? this.hashSecret(clientSecret) : undefined,
+      isPublic,
+      name: registration.name,
+      redirectUris: [...new Set(redirectUris)],
+      grantTypes: [...new Set(grantTypes)],
+      scopes: [...new Set(scopes)],
+      exchangeAudiences: [...new Set(exchangeAudiences)],
+      allowImpersonation,
+      ...tlsClientAuth
+    };
+
+    if (database.isDbConnected()) {
+      const document = await OAuthClientModel.create(client);
+      return { client: this.toClient(document), clientSecret };
+    }
+
+    const now = new Date();
+    const stored = { ...client, createdAt: now, updatedAt: now };
+    this.clients.set(clientId, stored);
+    return { client: stored, clientSecret };
+  }
+
+  async getClient(clientId: string): Promise<OAuthClient | undefined> {
+    if (database.isDbConnected()) {
+      const document = await OAuthClientModel.findOne({ clientId }).lean();
+      return document ? this.toClient(document) : undefined;
+    }
+    return this.clients.get(clientId);
+  }
+
+  async listClients(): Promise<OAuthClient[]> {
+    if (database.isDbConnected()) {
+      const documents = await OAuthClientModel.find().sort({ clientId: 1 }).lean();
+      return documents.map(document => this.toClient(document));
+    }
+    return [...this.clients.values()];
+  }
+
+  async removeClient(clientId: string): Promise<boolean> {
+    if (database.isDbConnected()) {
+      const result = await OAuthClientModel.deleteOne({ clientId });
+      return result.deletedCount > 0;
+    }
+    return this.clients.delete(clientId);
+  }
+
+  /**
+   * Check a client's credentials, returning the client when the secret matches
+   */
+  async authenticate(clientId: string, clientSecret: string): Promise<OAuthClient | undefined> {
+    const client = await this.getClient(clientId);
+    if (!client || !client.clientSecretHash) {
+      return undefined;
+    }
+
+    const expected = Buffer.from(client.clientSecretHash, 'hex');
+    const provided = Buffer.from(this.hashSecret(clientSecret), 'hex');
+    return timingSafeEqual(expected, provided) ? client : undefined;
+  }
+
+  /**
+   * Helper methods
+   */
+  private hashSecret(clientSecret: string): string {
+    return createHash('sha256').update(clientSecret).digest('hex');
+  }
+
+  /**
+   * Check the TLS client authentication settings (RFC 8705 section 2). tls_client_auth
+   * needs the subject DN of a CA-issued certificate; self_signed_tls_client_auth
+   * needs the certificates themselves, of which only the thumbprints are kept.
+   */
+  private validateTlsClientAuth(
+    registration: ClientRegistration,
+    isPublic: boolean
+  ): Pick<OAuthClient, 'tokenEndpointAuthMethod' | 'tlsClientAuthSubjectDn' | 'tlsClientCertificateThumbprints'> {
+    const method = registration.tokenEndpointAuthMethod;
+    const subjectDn = registration.tlsClientAuthSubjectDn;
+    const certificates = registration.tlsClientCertificates || [];
+
+    if (method !== undefined && !TOKEN_ENDPOINT_AUTH_METHODS.includes(method)) {
+      throw new Error(`Unsupported token_endpoint_auth_method: ${method}`);
+    }
+    if (isPublic && method !== undefined) {
+      throw new Error('Public clients cannot have a token_endpoint_auth_method');
+    }
+    if (method === 'tls_client_auth' && !mtlsService.getAuthMethods().includes(method)) {
+      throw new Error('tls_client_auth requires HTTPS with TLS_CLIENT_CA naming the CAs to trust');
+    }
+    if ((method === 'tls_client_auth') !== (subjectDn !== undefined)) {
+      throw new Error('tls_client_auth_subject_dn is required for, and only used with, tls_client_auth');
+    }
+    if ((method === 'self_signed_tls_client_auth') !== (certificates.length > 0)) {
+      throw new Error('tls_client_certificates are required for, and only used with, self_signed_tls_client_auth');
+    }
+
+    switch (method) {
+      case 'tls_client_auth':
+        return {
+          tokenEndpointAuthMethod: method,
+          tlsClientAuthSubjectDn: mtlsService.normalizeDn(subjectDn!),
+          tlsClientCertificateThumbprints: []
+        };
+      case 'self_signed_tls_client_auth':
+        return {
+          tokenEndpointAuthMethod: method,
+          tlsClientCertificateThumbprints: [...new Set(certificates.map(pem => mtlsService.thumbprintPem(pem)))]
+        };
+      default:
+        return { tlsClientCertificateThumbprints: [] };
+    }
+  }
+
+  /**
+   * Redirect URIs are matched exactly, so they must be absolute and without a
+   * fragment. Plain http is only allowed for loopback addresses.
+   */
+  private assertValidRedirectUri(uri: string): void {
+    let url: URL;
+    try {
+      url = new URL(uri);
+    } catch {
+      throw new Error(`redirect_uri ${uri} must be an absolute URL`);
+    }
+
+    if (url.hash) {
+      throw new Error(`redirect_uri ${uri} must not contain a fragment`);
+    }
+
+    const isLoopback = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+    if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLoopback)) {
+      throw new Error(`redirect_uri ${uri} must use https`);
+    }
+  }
+
+  private toClient(document: any): OAuthClient {
+    return {
+      clientId: document.clientId,
+      clientSecretHash: document.clientSecretHash,
+      isPublic: document.isPublic === true,
+      name: document.name,
+      redirectUris: document.redirectUris || [],
+      grantTypes: document.grantTypes || [],
+      scopes: document.scopes || [],
+      exchangeAudiences: document.exchangeAudiences || [],
+      allowImpersonation: document.allowImpersonation === true,
+      tokenEndpointAuthMethod: document.tokenEndpointAuthMethod || undefined,
+      tlsClientAuthSubjectDn: document.tlsClientAuthSubjectDn || undefined,
+      tlsClientCertificateThumbprints: document.tlsClientCertificateThumbprints || [],
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    };
+  }
+}
+
+// Singleton instance
+export const clientService = new ClientService();
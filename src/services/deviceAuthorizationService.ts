@@ -0,0 +1,200 @@
+import { createHash, randomBytes, randomInt } from 'crypto';
+import { database } from '../utils/database';
+import { DeviceCodeModel } from '../models/DeviceCode';
+
+export const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+// Users need time to find another device and sign in
+const DEVICE_CODE_TTL_MS = 10 * 60 * 1000;
+
+// Default seconds between polls (RFC 8628 section 3.2)
+const DEFAULT_POLL_INTERVAL = 5;
+
+// Added to the interval each time a client polls too fast (RFC 8628 section 3.5)
+const SLOW_DOWN_INCREMENT = 5;
+
+// RFC 8628 section 6.1: no vowels (so no words are spelled) and no look-alike characters
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+const USER_CODE_LENGTH = 8;
+
+/**
+ * Thrown when polling with a device code does not yield tokens. The error code
+ * is returned as the OAuth error (RFC 8628 section 3.5).
+ */
+export class DeviceAuthorizationError extends Error {
+  constructor(public errorCode: string, message: string) {
+    super(message);
+    this.name = 'DeviceAuthorizationError';
+  }
+}
+
+export interface DeviceAuthorization {
+  deviceCode: string;
+  // Formatted for display, e.g. WDJB-MJHT
+  userCode: string;
+  expiresIn: number;
+  interval: number;
+}
+
+export interface PendingDeviceAuthorization {
+  clientId: string;
+  scope?: string;
+  userCode: string;
+}
+
+export interface DeviceGrant {
+  clientId: string;
+  userId: string;
+  scope?: string;
+  authTime: Date;
+}
+
+export class DeviceAuthorizationService {
+  /**
+   * Start a device authorization request for a client (RFC 8628 section 3.1)
+   */
+  async createAuthorization(clientId: string, scope?: string): Promise<DeviceAuthorization> {
+    this.assertConnected();
+
+    const deviceCode = randomBytes(32).toString('base64url');
+    const userCode = this.generateUserCode();
+
+    await DeviceCodeModel.create({
+      deviceCodeHash: this.hash(deviceCode),
+      userCode,
+      clientId,
+      scope,
+      interval: DEFAULT_POLL_INTERVAL,
+      expiresAt: new Date(Date.now() + DEVICE_CODE_TTL_MS)
+    });
+
+    return {
+      deviceCode,
+      userCode: this.formatUserCode(userCode),
+      expiresIn: DEVICE_CODE_TTL_MS / 1000,
+      interval: DEFAULT_POLL_INTERVAL
+    };
+  }
+
+  /**
+   * Look up a request that is still waiting for the user, by the code they typed in
+   */
+  async findPending(userCode: string): Promise<PendingDeviceAuthorization | undefined> {
+    this.assertConnected();
+
+    const document = await DeviceCodeModel.findOne({
+      userCode: this.normalizeUserCode(userCode),
+      status: 'pending',
+      expiresAt: { $gt: new Date() }
+    });
+
+    return document
+      ? { clientId: document.clientId, scope: document.scope, userCode: this.formatUserCode(document.userCode) }
+      : undefined;
+  }
+
+  /**
+   * Record the user's decision on a pending request. Returns false when the code
+   * is unknown, expired or already decided.
+   */
+  async complete(userCode: string, userId: string, approved: boolean): Promise<boolean> {
+    this.assertConnected();
+
+    const now = new Date();
+    const result = await DeviceCodeModel.updateOne(
+      { userCode: this.normalizeUserCode(userCode), status: 'pending', expiresAt: { $gt: now } },
+      { $set: approved ? { status: 'approved', userId, authTime: now } : { status: 'denied', userId } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Poll for the outcome of a request (RFC 8628 section 3.4). Returns the grant
+   * once the user has approved, after which the device code cannot be used again.
+   */
+  async poll(deviceCode: string, clientId: string): Promise<DeviceGrant> {
+    this.assertConnected();
+
+    const now = new Date();
+    const document = await DeviceCodeModel.findOneAndUpdate(
+      { deviceCodeHash: this.hash(deviceCode) },
+      { $set: { lastPolledAt: now } }
+    );
+
+    if (!document || document.clientId !== clientId) {
+      throw new DeviceAuthorizationError('invalid_grant', 'Invalid device code');
+    }
+    if (document.expiresAt.getTime() <= now.getTime()) {
+      throw new DeviceAuthorizationError('expired_token', 'The device code has expired');
+    }
+
+    if (document.lastPolledAt && now.getTime() - document.lastPolledAt.getTime() < document.interval * 1000) {
+      await DeviceCodeModel.updateOne({ _id: document._id }, { $inc: { interval: SLOW_DOWN_INCREMENT } });
+      throw new DeviceAuthorizationError(
+        'slow_down',
+        `Polling too fast; wait at least ${document.interval + SLOW_DOWN_INCREMENT} seconds between requests`
+      );
+    }
+
+    switch (document.status) {
+      case 'pending':
+        throw new DeviceAuthorizationError('authorization_pending', 'The user has not yet approved the request');
+      case 'denied':
+        throw new DeviceAuthorizationError('access_denied', 'The user denied the request');
+      case 'redeemed':
+        throw new DeviceAuthorizationError('invalid_grant', 'The device code has already been used');
+    }
+
+    // Claim the approval atomically so only one poll receives tokens
+    const redeemed = await DeviceCodeModel.findOneAndUpdate(
+      { _id: document._id, status: 'approved' },
+      { $set: { status: 'redeemed' } }
+    );
+    if (!redeemed) {
+      throw new DeviceAuthorizationError('invalid_grant', 'The device code has already been used');
+    }
+
+    return {
+      clientId: redeemed.clientId,
+      userId: redeemed.userId!,
+      scope: redeemed.scope,
+      authTime: redeemed.authTime!
+    };
+  }
+
+  /**
+   * Helper methods
+   */
+  private generateUserCode(): string {
+    let code = '';
+    for (let i = 0; i < USER_CODE_LENGTH; i++) {
+      code += USER_CODE_ALPHABET[randomInt(USER_CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  private formatUserCode(userCode: string): string {
+    return `${userCode.substring(0, 4)}-${userCode.substring(4)}`;
+  }
+
+  /**
+   * Users may type the code in lower case, with or without the dash or spaces
+   */
+  private normalizeUserCode(userCode: string): string {
+    return userCode.toUpperCase().replace(/[^A-Z]/g, '');
+  }
+
+  private hash(deviceCode: string): string {
+    return createHash('sha256').update(deviceCode).digest('hex');
+  }
+
+  private assertConnected(): void {
+    if (!database.isDbConnected()) {
+      throw new Error('Device authorization requires a MongoDB connection');
+    }
+  }
+}
+
+// Singleton instance
+export const deviceAuthorizationService = new DeviceAuthorizationService();
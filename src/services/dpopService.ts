@@ -0,0 +1,199 @@
+import * as jose from 'jose';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { database } from '../utils/database';
+import { readSecret } from '../utils/secrets';
+import { DPoPProofModel } from '../models/DPoPProof';
+
+// Asymmetric algorithms accepted for DPoP proofs
+export const DPOP_SIGNING_ALGORITHMS = ['RS256', 'PS256', 'ES256', 'ES384', 'EdDSA'];
+
+// How old a proof's iat may be, and how far in the future, in seconds
+const PROOF_MAX_AGE = 5 * 60;
+const PROOF_CLOCK_SKEW = 60;
+
+// Server nonces are valid for the current and the previous window
+const NONCE_WINDOW_SECONDS = 5 * 60;
+
+/**
+ * Thrown when a DPoP proof is rejected. The error code is invalid_dpop_proof,
+ * use_dpop_nonce when the client must retry with the nonce from the DPoP-Nonce
+ * header (RFC 9449 section 8), or invalid_token when a token is sent with the
+ * wrong authorization scheme.
+ */
+export class DPoPError extends Error {
+  constructor(public errorCode: 'invalid_token' | 'invalid_dpop_proof' | 'use_dpop_nonce', message: string) {
+    super(message);
+    this.name = 'DPoPError';
+  }
+}
+
+export interface ProofContext {
+  // HTTP method and URL (without query) the proof must be bound to.
+  // Any of the URLs is accepted, e.g. the public URL behind a proxy.
+  method: string;
+  urls: string[];
+  // Access token the proof must be bound to through ath, at resource servers
+  accessToken?: string;
+}
+
+/**
+ * Verification of DPoP proofs (RFC 9449): the client proves possession of the
+ * key a token is bound to by signing each request
+ */
+export class DPoPService {
+  private requireNonce: boolean;
+  private nonceSecret: Buffer;
+  // Used instead of MongoDB when the database is not connected
+  private usedProofs = new Map<string, number>();
+
+  constructor() {
+    this.requireNonce = process.env.DPOP_REQUIRE_NONCE === 'true';
+    // Replicas must share the secret to accept each other's nonces
+    const secret = readSecret('DPOP_NONCE_SECRET');
+    this.nonceSecret = secret ? Buffer.from(secret) : randomBytes(32);
+  }
+
+  /**
+   * Whether proofs must carry a server-provided nonce
+   */
+  isNonceRequired(): boolean {
+    return this.requireNonce;
+  }
+
+  /**
+   * The nonce clients should put in their next proof (DPoP-Nonce header)
+   */
+  getNonce(): string {
+    return this.nonceFor(Math.floor(Date.now() / 1000 / NONCE_WINDOW_SECONDS));
+  }
+
+  /**
+   * Verify a DPoP proof and return the thumbprint of its key (the jkt a
+   * token is or will be bound to)
+   */
+  async verifyProof(proof: string, context: ProofContext): Promise<string> {
+    let header: jose.ProtectedHeaderParameters;
+    try {
+      header = jose.decodeProtectedHeader(proof);
+    } catch {
+      throw new DPoPError('invalid_dpop_proof', 'DPoP proof is not a JWT');
+    }
+
+    if (header.typ !== 'dpop+jwt') {
+      throw new DPoPError('invalid_dpop_proof', 'DPoP proof must have typ dpop+jwt');
+    }
+    if (!header.alg || !DPOP_SIGNING_ALGORITHMS.includes(header.alg)) {
+      throw new DPoPError('invalid_dpop_proof', `DPoP proof alg must be one of ${DPOP_SIGNING_ALGORITHMS.join(', ')}`);
+    }
+    if (!header.jwk || typeof header.jwk !== 'object' || 'd' in header.jwk) {
+      throw new DPoPError('invalid_dpop_proof', 'DPoP proof must carry a public jwk header');
+    }
+
+    let payload: jose.JWTPayload;
+    try {
+      const key = await jose.importJWK(header.jwk, header.alg);
+      ({ payload } = await jose.jwtVerify(proof, key, { typ: 'dpop+jwt', algorithms: [header.alg] }));
+    } catch {
+      throw new DPoPError('invalid_dpop_proof', 'DPoP proof signature is invalid');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.iat !== 'number' || payload.iat < now - PROOF_MAX_AGE || payload.iat > now + PROOF_CLOCK_SKEW) {
+      throw new DPoPError('invalid_dpop_proof', 'DPoP proof iat is missing or outside the accepted window');
+    }
+    if (typeof payload.jti !== 'string' || !payload.jti) {
+      throw new DPoPError('invalid_dpop_proof', 'DPoP proof must have a jti');
+    }
+    if (payload.htm !== context.method) {
+      throw new DPoPError('invalid_dpop_proof', 'DPoP proof htm does not match the request method');
+    }
+    const urls = context.urls.map(url => this.normalizeUrl(url));
+    if (typeof payload.htu !== 'string' || !urls.includes(this.normalizeUrl(payload.htu))) {
+      throw new DPoPError('invalid_dpop_proof', 'DPoP proof htu does not match the request URL');
+    }
+
+    if (context.accessToken !== undefined) {
+      const ath = createHash('sha256').update(context.accessToken).digest('base64url');
+      if (payload.ath !== ath) {
+        throw new DPoPError('invalid_dpop_proof', 'DPoP proof ath does not match the access token');
+      }
+    }
+
+    if (this.requireNonce && (typeof payload.nonce !== 'string' || !this.isValidNonce(payload.nonce))) {
+      throw new DPoPError('use_dpop_nonce', 'DPoP proof must include the nonce from the DPoP-Nonce header');
+    }
+
+    const jkt = await jose.calculateJwkThumbprint(header.jwk, 'sha256');
+    await this.markUsed(jkt, payload.jti, payload.iat);
+
+    return jkt;
+  }
+
+  /**
+   * Helper methods
+   */
+  private async markUsed(jkt: string, jti: string, iat: number): Promise<void> {
+    // Remembered until the proof's iat leaves the accepted window
+    const proofHash = createHash('sha256').update(`${jkt}:${jti}`).digest('hex');
+    const expiresAt = (iat + PROOF_MAX_AGE + PROOF_CLOCK_SKEW) * 1000;
+
+    if (database.isDbConnected()) {
+      try {
+        await DPoPProofModel.create({ proofHash, expiresAt: new Date(expiresAt) });
+      } catch (error: any) {
+        if (error.code === 11000) {
+          throw new DPoPError('invalid_dpop_proof', 'DPoP proof has already been used');
+        }
+        throw error;
+      }
+      return;
+    }
+
+    this.pruneUsedProofs();
+    if (this.usedProofs.has(proofHash)) {
+      throw new DPoPError('invalid_dpop_proof', 'DPoP proof has already been used');
+    }
+    this.usedProofs.set(proofHash, expiresAt);
+  }
+
+  private pruneUsedProofs(): void {
+    const now = Date.now();
+    for (const [proofHash, expiresAt] of this.usedProofs) {
+      if (expiresAt <= now) {
+        this.usedProofs.delete(proofHash);
+      }
+    }
+  }
+
+  /**
+   * Nonces are an HMAC of the time window, so they need no storage
+   */
+  private nonceFor(window: number): string {
+    return createHmac('sha256', this.nonceSecret).update(`dpop-nonce:${window}`).digest('base64url');
+  }
+
+  private isValidNonce(nonce: string): boolean {
+    const window = Math.floor(Date.now() / 1000 / NONCE_WINDOW_SECONDS);
+    const provided = Buffer.from(nonce);
+
+    return [window, window - 1].some(candidate => {
+      const expected = Buffer.from(this.nonceFor(candidate));
+      return expected.length === provided.length && timingSafeEqual(expected, provided);
+    });
+  }
+
+  /**
+   * htu is compared without query and fragment (RFC 9449 section 4.3)
+   */
+  private normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.origin}${parsed.pathname}`;
+    } catch {
+      return '';
+    }
+  }
+}
+
+// Singleton instance
+export const dpopService = new DPoPService();
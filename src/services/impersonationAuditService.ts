@@ -0,0 +1,76 @@
+import { database } from '../utils/database';
+import { ImpersonationEventModel } from '../models/ImpersonationEvent';
+import { ImpersonationEvent } from '../types';
+
+const DEFAULT_LIST_LIMIT = 100;
+
+export interface ImpersonationQuery {
+  actorSub?: string;
+  subjectSub?: string;
+  limit?: number;
+}
+
+/**
+ * Audit trail of impersonation, kept apart from other token activity so it can
+ * be reviewed and retained on its own
+ */
+export class ImpersonationAuditService {
+  /**
+   * Record an impersonation. Tokens are only handed out once this succeeds.
+   */
+  async record(event: ImpersonationEvent): Promise<void> {
+    this.assertConnected();
+
+    await ImpersonationEventModel.create(event);
+    console.warn(`[AUDIT] ${event.actorUsername || event.actorSub} impersonated ` +
+      `${event.subjectUsername || event.subjectSub} via client ${event.clientId} for ${event.audience} (jti ${event.jti})`);
+  }
+
+  /**
+   * Most recent impersonations first, optionally for one actor or subject
+   */
+  async list(query: ImpersonationQuery = {}): Promise<ImpersonationEvent[]> {
+    this.assertConnected();
+
+    const filter: Record<string, string> = {};
+    if (query.actorSub) {
+      filter.actorSub = query.actorSub;
+    }
+    if (query.subjectSub) {
+      filter.subjectSub = query.subjectSub;
+    }
+
+    const documents = await ImpersonationEventModel.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(query.limit || DEFAULT_LIST_LIMIT)
+      .lean();
+    return documents.map(document => this.toEvent(document));
+  }
+
+  /**
+   * Helper methods
+   */
+  private toEvent(document: any): ImpersonationEvent {
+    return {
+      actorSub: document.actorSub,
+      actorUsername: document.actorUsername,
+      subjectSub: document.subjectSub,
+      subjectUsername: document.subjectUsername,
+      clientId: document.clientId,
+      audience: document.audience,
+      scope: document.scope,
+      jti: document.jti,
+      expiresAt: document.expiresAt,
+      createdAt: document.createdAt
+    };
+  }
+
+  private assertConnected(): void {
+    if (!database.isDbConnected()) {
+      throw new Error('The impersonation audit log requires a MongoDB connection');
+    }
+  }
+}
+
+// Singleton instance
+export const impersonationAuditService = new ImpersonationAuditService();
@@ -1,97 +1,333 @@
 import * as jose from 'jose';
-import { keyService } from './keyService';
-import { JWTPayload, TokenResponse } from '../types';
+import { createHash, randomUUID } from 'crypto';
+import { keyService, KeyRevokedError, SUPPORTED_ENCRYPTION_ALGORITHMS } from './keyService';
+import { recipientService, RecipientKeyError } from './recipientService';
+import { revocationService, TokenRevokedError } from './revocationService';
+import { trustedIssuerService } from './trustedIssuerService';
+import { JWTPayload, TokenConfirmation, TokenResponse, TrustedIssuer } from '../types';
+import { durationToSeconds } from '../utils/duration';
+import { JwksFetchError } from '../utils/remoteJwks';
+
+// Claims identifying the subject; tokens issued to a client have no username or email
+export type SubjectClaims = Pick<JWTPayload, 'sub'> & Partial<Pick<JWTPayload, 'username' | 'email'>>;
+
+export interface TokenOptions {
+  // Defaults to JWT_AUDIENCE
+  audience?: string | string[];
+  // Lifetime in seconds, defaults to JWT_EXPIRATION
+  expiresIn?: number;
+  // NumericDate before which the token must not be accepted
+  notBefore?: number;
+  scope?: string;
+  roles?: string[];
+  // Extra claims, already checked against the reserved claim names
+  claims?: Record<string, unknown>;
+  // Binds the token to a key (cnf claim); tokens bound to a DPoP key have token_type DPoP
+  confirmation?: TokenConfirmation;
+  // Sign and then encrypt the token to the audience's encryption key.
+  // Defaults to the audience's registered encryptByDefault setting.
+  encrypt?: boolean;
+  // Issue a demo token: its iss is the demo issuer, so it is only accepted
+  // where demo tokens are explicitly allowed
+  demo?: boolean;
+}
+
+export interface IdTokenOptions {
+  // The client the ID token is issued to (its aud)
+  clientId: string;
+  nonce?: string;
+  authTime: Date;
+  // Access token issued alongside, bound through at_hash
+  accessToken: string;
+  // User claims released for the granted scopes
+  claims?: Record<string, unknown>;
+}
 
 export class JWTService {
   private issuer: string;
+  private demoIssuer: string;
   private audience: string;
   private expirationTime: string;
 
   constructor() {
     this.issuer = process.env.JWT_ISSUER || 'jwt-generator-app';
+    this.demoIssuer = process.env.DEMO_TOKEN_ISSUER || `${this.issuer}/demo`;
     this.audience = process.env.JWT_AUDIENCE || 'jwt-generator-api';
     this.expirationTime = process.env.JWT_EXPIRATION || '1h';
   }
 
   /**
-   * Generate a JWT token for a user
+   * Generate a JWT token for a user, optionally encrypted as a nested JWT
    */
-  async generateToken(payload: Omit<JWTPayload, 'iat' | 'exp' | 'iss' | 'aud'>): Promise<TokenResponse> {
+  async generateToken(
+    payload: SubjectClaims,
+    options: TokenOptions = {}
+  ): Promise<TokenResponse> {
     try {
-      const privateKey = keyService.getPrivateKey();
-      const keyId = keyService.getKeyId();
+      await keyService.refreshKeys();
+      const signingKey = keyService.getSigningKey();
+      const audience = options.audience || this.audience;
+      const issuedAt = Math.floor(Date.now() / 1000);
+
+      // Calculate expires_in (in seconds)
+      const expiresIn = options.expiresIn ?? this.calculateExpirationSeconds(this.expirationTime);
 
       // Create the JWT
-      const jwt = await new jose.SignJWT({
+      const builder = new jose.SignJWT({
+        ...options.claims,
         ...payload,
+        ...(options.scope ? { scope: options.scope } : {}),
+        ...(options.roles ? { roles: options.roles } : {}),
+        ...(options.confirmation ? { cnf: options.confirmation } : {})
       })
         .setProtectedHeader({ 
-          alg: 'RS256',
+          alg: signingKey.alg,
           typ: 'JWT',
-          kid: keyId 
+          kid: signingKey.kid
         })
-        .setIssuedAt()
-        .setIssuer(this.issuer)
-        .setAudience(this.audience)
-        .setExpirationTime(this.expirationTime)
-        .sign(privateKey);
+        .setJti(randomUUID())
+        .setIssuedAt(issuedAt)
+        .setIssuer(options.demo ? this.demoIssuer : this.issuer)
+        .setAudience(audience)
+        .setExpirationTime(issuedAt + expiresIn);
 
-      // Calculate expires_in (in seconds)
-      const expiresIn = this.calculateExpirationSeconds(this.expirationTime);
+      if (options.notBefore !== undefined) {
+        builder.setNotBefore(options.notBefore);
+      }
+
+      const jwt = await builder.sign(signingKey.privateKey);
+
+      // Tokens for several audiences are encrypted to the first one
+      const primaryAudience = Array.isArray(audience) ? audience[0] : audience;
+      const encrypt = options.encrypt ?? (await recipientService.getRecipient(primaryAudience))?.encryptByDefault ?? false;
+      const accessToken = encrypt ? await this.encryptToken(jwt, primaryAudience) : jwt;
 
       return {
-        access_token: jwt,
-        token_type: 'Bearer',
-        expires_in: expiresIn
+        access_token: accessToken,
+        token_type: options.confirmation?.jkt ? 'DPoP' : 'Bearer',
+        expires_in: expiresIn,
+        claims: jose.decodeJwt(jwt)
       };
     } catch (error) {
       console.error('Failed to generate JWT:', error);
+      if (error instanceof RecipientKeyError) {
+        throw error;
+      }
       throw new Error('Token generation failed');
     }
   }
 
   /**
-   * Verify and decode a JWT token
+   * Generate an OpenID Connect ID token (OIDC Core section 2) for the user
+   * who signed in at a client
    */
-  async verifyToken(token: string): Promise<JWTPayload> {
-    try {
-      const publicKey = keyService.getPublicKey();
+  async generateIdToken(sub: string, options: IdTokenOptions): Promise<string> {
+    await keyService.refreshKeys();
+    const signingKey = keyService.getSigningKey();
+    const issuedAt = Math.floor(Date.now() / 1000);
+
+    return new jose.SignJWT({
+      ...options.claims,
+      auth_time: Math.floor(options.authTime.getTime() / 1000),
+      ...(options.nonce ? { nonce: options.nonce } : {}),
+      at_hash: this.calculateAtHash(options.accessToken, signingKey.alg)
+    })
+      .setProtectedHeader({ alg: signingKey.alg, typ: 'JWT', kid: signingKey.kid })
+      .setSubject(sub)
+      .setIssuedAt(issuedAt)
+      .setIssuer(this.issuer)
+      .setAudience(options.clientId)
+      .setExpirationTime(issuedAt + this.calculateExpirationSeconds(this.expirationTime))
+      .sign(signingKey.privateKey);
+  }
+
+  /**
+   * Encrypt a signed JWT to an audience's encryption key, producing a nested JWT
+   * (RFC 7519 section 5.2) that only the recipient can read
+   */
+  async encryptToken(jws: string, audience: string): Promise<string> {
+    const target = await recipientService.resolveEncryptionTarget(audience);
+
+    return new jose.CompactEncrypt(new TextEncoder().encode(jws))
+      .setProtectedHeader({ alg: target.alg, enc: target.enc, cty: 'JWT', kid: target.kid })
+      .encrypt(target.key);
+  }
+
+  /**
+   * Verify and decode a JWT token, selecting the verification key by its kid header.
+   * Nested JWE tokens encrypted to one of our encryption keys are decrypted first.
+   * Tokens whose jti has been revoked are rejected. Tokens whose iss is one of the
+   * TRUSTED_ISSUERS are verified with that issuer's keys and claim mappings instead.
+   * Demo tokens are rejected unless allowDemo is set.
+   */
+  async verifyToken(token: string, { allowDemo = false } = {}): Promise<JWTPayload> {
+    const trustedIssuer = this.isEncryptedToken(token) ? undefined : trustedIssuerService.getIssuer(this.peekIssuer(token));
+    const payload = trustedIssuer
+      ? await this.verifyTrustedIssuerToken(token, trustedIssuer)
+      : await this.verifyTokenClaims(token, { allowDemo });
+
+    // Convert jose JWT payload to our custom JWTPayload type
+    return {
+      sub: payload.sub || '',
+      username: (payload as any).username || '',
+      email: (payload as any).email || '',
+      iat: payload.iat,
+      exp: payload.exp,
+      iss: payload.iss,
+      aud: typeof payload.aud === 'string' ? payload.aud : (payload.aud?.[0] || ''),
+      jti: payload.jti,
+      scope: typeof payload.scope === 'string' ? payload.scope : undefined,
+      roles: Array.isArray(payload.roles) ? payload.roles as string[] : undefined,
+      cnf: typeof payload.cnf === 'object' && payload.cnf !== null ? payload.cnf as TokenConfirmation : undefined
+    };
+  }
 
-      const { payload } = await jose.jwtVerify(token, publicKey, {
-        issuer: this.issuer,
-        audience: this.audience,
+  /**
+   * Verify a token like verifyToken and return all of its claims. Tokens issued for
+   * JWT_AUDIENCE or one of audiences are accepted, or for any audience with anyAudience.
+   * Only tokens from our own issuer are accepted, and demo tokens only with allowDemo.
+   * ID tokens, which always carry at_hash, are never accepted as access tokens.
+   */
+  async verifyTokenClaims(
+    token: string,
+    { anyAudience = false, allowDemo = false, audiences = [] as string[] } = {}
+  ): Promise<jose.JWTPayload> {
+    try {
+      const jws = this.isEncryptedToken(token) ? await this.decryptToken(token) : token;
+      const { payload } = await jose.jwtVerify(jws, this.resolveVerificationKey, {
+        issuer: allowDemo ? [this.issuer, this.demoIssuer] : this.issuer,
+        audience: anyAudience ? undefined : [this.audience, ...audiences],
       });
 
-      // Convert jose JWT payload to our custom JWTPayload type
-      return {
-        sub: payload.sub || '',
-        username: (payload as any).username || '',
-        email: (payload as any).email || '',
-        iat: payload.iat,
-        exp: payload.exp,
-        iss: payload.iss,
-        aud: typeof payload.aud === 'string' ? payload.aud : (payload.aud?.[0] || '')
-      };
+      if (payload.at_hash !== undefined) {
+        throw new jose.errors.JWTClaimValidationFailed('ID tokens are not access tokens', payload, 'at_hash', 'check_failed');
+      }
+      if (payload.jti && await revocationService.isRevoked(payload.jti)) {
+        throw new TokenRevokedError(payload.jti);
+      }
+
+      return payload;
     } catch (error) {
       console.error('JWT verification failed:', error);
-      
-      if (error instanceof jose.errors.JWTExpired) {
-        throw new Error('Token has expired');
-      } else if (error instanceof jose.errors.JWTInvalid) {
-        throw new Error('Invalid token');
-      } else {
-        throw new Error('Token verification failed');
-      }
+      throw this.toVerificationError(error);
+    }
+  }
+
+  /**
+   * Decrypt a nested JWT (JWE wrapping a signed JWT, RFC 7519 section 5.2) that was
+   * encrypted to one of our published encryption keys, and return the inner JWS.
+   * The inner token is not verified here, since it may be signed by a client.
+   */
+  async decryptToken(token: string): Promise<string> {
+    const { plaintext, protectedHeader } = await jose.compactDecrypt(token, this.resolveDecryptionKey, {
+      keyManagementAlgorithms: SUPPORTED_ENCRYPTION_ALGORITHMS
+    });
+
+    if (protectedHeader.cty?.toUpperCase() !== 'JWT') {
+      throw new jose.errors.JWEInvalid('Encrypted token does not contain a nested JWT (cty must be "JWT")');
     }
+
+    return new TextDecoder().decode(plaintext);
+  }
+
+  /**
+   * The iss of a signed token, read without verification to pick the issuer's keys
+   */
+  private peekIssuer(token: string): string | undefined {
+    try {
+      return jose.decodeJwt(token).iss;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async verifyTrustedIssuerToken(token: string, issuer: TrustedIssuer): Promise<jose.JWTPayload> {
+    try {
+      return await trustedIssuerService.verifyToken(token, issuer);
+    } catch (error) {
+      console.error(`JWT verification failed for trusted issuer ${issuer.issuer}:`, error);
+      throw this.toVerificationError(error);
+    }
+  }
+
+  /**
+   * Map a verification failure to the error message returned to callers
+   */
+  private toVerificationError(error: unknown): Error {
+    if (error instanceof jose.errors.JWTExpired) {
+      return new Error('Token has expired');
+    } else if (error instanceof jose.errors.JWTClaimValidationFailed && error.claim === 'nbf') {
+      return new Error('Token is not yet valid');
+    } else if (error instanceof jose.errors.JWTClaimValidationFailed && error.claim === 'at_hash') {
+      return new Error('ID tokens cannot be used as access tokens');
+    } else if (error instanceof jose.errors.JWTInvalid) {
+      return new Error('Invalid token');
+    } else if (error instanceof jose.errors.JWEDecryptionFailed || error instanceof jose.errors.JWEInvalid) {
+      return new Error('Token decryption failed');
+    } else if (error instanceof TokenRevokedError) {
+      return new Error('Token has been revoked');
+    } else if (error instanceof KeyRevokedError) {
+      return new Error('Token signing key has been revoked');
+    } else if (error instanceof jose.errors.JWKSNoMatchingKey) {
+      return new Error('Token signing key is unknown or retired');
+    } else if (error instanceof JwksFetchError) {
+      return new Error('Token issuer keys are unavailable');
+    } else {
+      return new Error('Token verification failed');
+    }
+  }
+
+  /**
+   * Whether a compact token is a JWE (five segments) rather than a JWS (three)
+   */
+  isEncryptedToken(token: string): boolean {
+    return token.split('.').length === 5;
   }
 
   /**
-   * Decode JWT without verification (for inspection purposes)
+   * Look up the encryption key matching the JWE kid header in a recently
+   * reloaded keyring
+   */
+  private resolveDecryptionKey = async (header: jose.CompactJWEHeaderParameters): Promise<jose.KeyLike> => {
+    await keyService.refreshKeys();
+    const key = keyService.getDecryptionKey(header.kid);
+
+    if (!key || key.alg !== header.alg) {
+      throw new jose.errors.JWEDecryptionFailed();
+    }
+
+    return key.privateKey;
+  };
+
+  /**
+   * Look up the published key matching the token's kid header.
+   * The keyring is reloaded every 30 seconds, so keys created or revoked by
+   * another replica take effect here shortly after.
+   * Tokens signed with a revoked key are rejected with a dedicated error.
+   */
+  private resolveVerificationKey = async (header: jose.JWTHeaderParameters): Promise<jose.KeyLike> => {
+    await keyService.refreshKeys();
+    const key = keyService.getVerificationKey(header.kid);
+
+    if (header.kid && keyService.getKey(header.kid)?.status === 'revoked') {
+      throw new KeyRevokedError(header.kid);
+    }
+
+    if (!key || key.alg !== header.alg) {
+      throw new jose.errors.JWKSNoMatchingKey();
+    }
+
+    return key.publicKey;
+  };
+
+  /**
+   * Decode JWT without verification (for inspection purposes).
+   * Only the header of an encrypted token can be decoded; its payload is null.
    */
   decodeToken(token: string): { header: any; payload: any } {
     try {
       const header = jose.decodeProtectedHeader(token);
-      const payload = jose.decodeJwt(token);
+      const payload = this.isEncryptedToken(token) ? null : jose.decodeJwt(token);
 
       return { header, payload };
     } catch (error) {
@@ -129,20 +365,21 @@ export class JWTService {
     };
   }
 
+  /**
+   * at_hash (OIDC Core section 3.1.3.6): the left half of the access token's hash,
+   * using the hash function of the ID token's signing algorithm
+   */
+  private calculateAtHash(accessToken: string, alg: string): string {
+    const hashAlgorithm = alg === 'EdDSA' ? 'sha512' : alg.endsWith('384') ? 'sha384' : 'sha256';
+    const digest = createHash(hashAlgorithm).update(accessToken).digest();
+    return digest.subarray(0, digest.length / 2).toString('base64url');
+  }
+
   /**
    * Convert expiration time string to seconds
    */
   private calculateExpirationSeconds(expiration: string): number {
-    const timeValue = parseInt(expiration);
-    const timeUnit = expiration.slice(-1).toLowerCase();
-
-    switch (timeUnit) {
-      case 's': return timeValue;
-      case 'm': return timeValue * 60;
-      case 'h': return timeValue * 60 * 60;
-      case 'd': return timeValue * 24 * 60 * 60;
-      default: return 3600; // Default to 1 hour
-    }
+    return durationToSeconds(expiration, 3600); // Default to 1 hour
   }
 }
 
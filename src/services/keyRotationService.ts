@@ -0,0 +1,170 @@
+import { keyService } from './keyService';
+import { tokenPolicyService } from './tokenPolicyService';
+import { durationToSeconds } from '../utils/duration';
+
+// How often the scheduler checks whether a rotation step is due
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface RotationSchedule {
+  enabled: boolean;
+  rotationIntervalSeconds: number;
+  jwksCacheMaxAgeSeconds: number;
+  retirementGraceSeconds: number;
+  lastRotationAt?: Date;
+  nextRotationAt?: Date;
+}
+
+export class KeyRotationService {
+  private rotationInterval: number;
+  private jwksCacheMaxAge: number;
+  private retirementGrace: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  constructor() {
+    this.rotationInterval = durationToSeconds(process.env.KEY_ROTATION_INTERVAL || '', 0);
+    this.jwksCacheMaxAge = durationToSeconds(process.env.JWKS_CACHE_MAX_AGE || '86400', 86400);
+    // The previous key must outlive the longest token it could have signed,
+    // including tokens issued with a custom lifetime up to TOKEN_MAX_TTL
+    this.retirementGrace = tokenPolicyService.getMaxTtl();
+  }
+
+  /**
+   * Start the rotation scheduler. Without KEY_ROTATION_INTERVAL it only
+   * retires keys left over from manual rotations.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    if (this.isEnabled()) {
+      console.log(`Key rotation scheduled every ${this.rotationInterval}s`);
+    }
+
+    this.timer = setInterval(() => {
+      this.runRotationCycle().catch((error) => {
+        console.error('Key rotation cycle failed:', error);
+      });
+    }, CHECK_INTERVAL_MS);
+    this.timer.unref();
+
+    this.runRotationCycle().catch((error) => {
+      console.error('Key rotation cycle failed:', error);
+    });
+  }
+
+  /**
+   * Stop the rotation scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.rotationInterval > 0;
+  }
+
+  /**
+   * Max-age advertised on the JWKS endpoints, in seconds
+   */
+  getJwksCacheMaxAge(): number {
+    return this.jwksCacheMaxAge;
+  }
+
+  /**
+   * Run one pass of the rotation state machine for signing keys
+   * (encryption keys are rotated through the admin API):
+   * - retire keys that have been retiring longer than the longest token lifetime
+   * - activate a pending key once it has been published for the JWKS cache max-age
+   * - stage a new key so that it is ready to activate when the active key is due
+   */
+  async runRotationCycle(now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      // Pick up rotations already performed by other replicas sharing the key store
+      await keyService.refreshKeys(true);
+
+      for (const key of keyService.getKeys()) {
+        if (key.use === 'sig' && key.status === 'retiring' && key.retiringAt &&
+            this.secondsSince(key.retiringAt, now) >= this.retirementGrace) {
+          await keyService.retireKey(key.kid);
+        }
+      }
+
+      if (!this.isEnabled()) {
+        return;
+      }
+
+      const pending = keyService.getKeys().find(key => key.use === 'sig' && key.status === 'pending');
+      if (pending) {
+        if (this.secondsSince(pending.createdAt, now) >= this.jwksCacheMaxAge) {
+          await keyService.activateKey(pending.kid);
+        }
+        return;
+      }
+
+      const stageAt = this.getStageTime();
+      if (stageAt && stageAt.getTime() <= now.getTime()) {
+        await keyService.stageKey();
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Describe the rotation schedule and when the next rotation is expected
+   */
+  getSchedule(): RotationSchedule {
+    const active = keyService.getKeys().find(key => key.use === 'sig' && key.status === 'active');
+    const lastRotationAt = active ? (active.activatedAt || active.createdAt) : undefined;
+    let nextRotationAt: Date | undefined;
+
+    if (this.isEnabled() && lastRotationAt) {
+      const pending = keyService.getKeys().find(key => key.use === 'sig' && key.status === 'pending');
+      const dueAt = lastRotationAt.getTime() + this.rotationInterval * 1000;
+      // A pending key cannot be activated before it has been published for the cache max-age
+      const publishedAt = pending ? pending.createdAt.getTime() + this.jwksCacheMaxAge * 1000 : dueAt;
+      nextRotationAt = new Date(Math.max(dueAt, publishedAt));
+    }
+
+    return {
+      enabled: this.isEnabled(),
+      rotationIntervalSeconds: this.rotationInterval,
+      jwksCacheMaxAgeSeconds: this.jwksCacheMaxAge,
+      retirementGraceSeconds: this.retirementGrace,
+      lastRotationAt,
+      nextRotationAt
+    };
+  }
+
+  /**
+   * Helper methods
+   */
+  private getStageTime(): Date | undefined {
+    const active = keyService.getKeys().find(key => key.use === 'sig' && key.status === 'active');
+    if (!active) {
+      return undefined;
+    }
+
+    // Stage early enough that the new key has been published for a full cache max-age when it is due
+    const activatedAt = (active.activatedAt || active.createdAt).getTime();
+    const lead = Math.min(this.jwksCacheMaxAge, this.rotationInterval);
+    return new Date(activatedAt + (this.rotationInterval - lead) * 1000);
+  }
+
+  private secondsSince(date: Date, now: Date): number {
+    return (now.getTime() - date.getTime()) / 1000;
+  }
+}
+
+// Singleton instance
+export const keyRotationService = new KeyRotationService();
@@ -1,35 +1,121 @@
 import * as jose from 'jose';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import { JWKS, JWKSKey } from '../types';
+import { createHash, createPrivateKey, createPublicKey } from 'crypto';
+import { readSecret } from '../utils/secrets';
+import { createKeyStore, KeyConflictError, KeyStore } from './keyStore';
+import { certificateService } from './certificateService';
+import {
+  EncryptionAlgorithm, JWKS, JWKSKey, KeyAlgorithm, KeyStatus, KeyUse, ManagedKey, SigningAlgorithm, StoredKey
+} from '../types';
+
+// Cipher used for passphrase-protected PKCS#8 private keys
+const PRIVATE_KEY_CIPHER = 'aes-256-cbc';
+
+// How long the keyring is used before it is reloaded to pick up changes made by
+// other replicas, such as revocations
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+export const SUPPORTED_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'PS256', 'ES256', 'ES384', 'EdDSA'];
+
+export const SUPPORTED_ENCRYPTION_ALGORITHMS: EncryptionAlgorithm[] = ['RSA-OAEP-256', 'ECDH-ES'];
+
+/**
+ * Whether keys for an algorithm sign tokens or decrypt tokens encrypted to us
+ */
+export const getKeyUse = (alg: KeyAlgorithm): KeyUse =>
+  SUPPORTED_ENCRYPTION_ALGORITHMS.includes(alg as EncryptionAlgorithm) ? 'enc' : 'sig';
+
+// Keys in these states are published in the JWKS and accepted for verification
+const PUBLISHED_STATUSES: KeyStatus[] = ['pending', 'active', 'retiring'];
+
+// A revocation applies to a key in any other state, and is never undone
+const REVOCABLE_STATUSES: KeyStatus[] = [...PUBLISHED_STATUSES, 'retired'];
+
+/**
+ * Thrown when a token is signed with a key that has been revoked as compromised
+ */
+export class KeyRevokedError extends Error {
+  constructor(kid: string) {
+    super(`Signing key ${kid} has been revoked`);
+    this.name = 'KeyRevokedError';
+  }
+}
+
+/**
+ * Thrown when a keyring change cannot be persisted. The change is not applied,
+ * so it is not lost silently on restart.
+ */
+export class KeyringWriteError extends Error {
+  constructor(storeName: string, cause: unknown) {
+    super(`Failed to save keyring to ${storeName} key store: ${(cause as Error)?.message || cause}`);
+    this.name = 'KeyringWriteError';
+  }
+}
+
+export interface KeyImportMaterial {
+  pem?: string;
+  jwk?: jose.JWK;
+  certificate?: string;
+}
+
+/**
+ * A changed key to persist, and the statuses the stored key may be in for the
+ * change to apply. New keys have no expected status.
+ */
+interface KeyChange {
+  key: ManagedKey;
+  from?: KeyStatus[];
+}
+
+export interface KeyImportOptions {
+  alg?: KeyAlgorithm;
+  kid?: string;
+  status?: 'pending' | 'active' | 'retiring';
+}
 
 export class KeyService {
-  private privateKey: any = null;
-  private publicKey: any = null;
-  private keyId: string = 'default-key-id';
-  private keysDir: string;
+  private keys: ManagedKey[] = [];
+  private store: KeyStore | null = null;
+  private algorithm: SigningAlgorithm;
+  private encryptionAlgorithm: EncryptionAlgorithm | undefined;
+  private passphrase: string | undefined;
+  private lastRefreshAt: number = 0;
+  private pendingRefresh: Promise<void> | null = null;
 
   constructor() {
-    this.keysDir = process.env.KEYS_DIR || './keys';
+    this.algorithm = (process.env.JWT_SIGNING_ALG || 'RS256') as SigningAlgorithm;
+    this.encryptionAlgorithm = process.env.JWT_ENCRYPTION_ALG as EncryptionAlgorithm | undefined;
   }
 
   /**
-   * Initialize keys - load existing or generate new ones
+   * Initialize keys - load the keyring from the configured store or generate a new key
    */
   async initializeKeys(): Promise<void> {
     try {
-      await this.ensureKeysDirectory();
-      
-      const privateKeyExists = await this.fileExists(this.getPrivateKeyPath());
-      const publicKeyExists = await this.fileExists(this.getPublicKeyPath());
+      this.assertSupportedAlgorithm(this.algorithm, 'sig');
+      if (this.encryptionAlgorithm) {
+        this.assertSupportedAlgorithm(this.encryptionAlgorithm, 'enc');
+      }
+      this.passphrase = readSecret('KEY_PASSPHRASE');
+      console.log(`Using ${this.getStore().name} key store`);
 
-      if (privateKeyExists && publicKeyExists) {
-        console.log('Loading existing RSA keys...');
-        await this.loadKeys();
+      if (await this.loadKeys()) {
+        console.log(`Keyring loaded successfully (${this.keys.length} keys)`);
       } else {
-        console.log('Generating new RSA key pair...');
-        await this.generateKeyPair();
+        console.log(`Generating new ${this.algorithm} key pair...`);
+        // KEY_ID only names the first key; rotated keys are always identified by thumbprint
+        this.keys = [await this.generateKeyPair('active', this.algorithm, process.env.KEY_ID)];
+        await this.saveKeys();
+
+        // Another replica sharing the store may have created its keyring at the same time
+        await this.loadKeys();
       }
+
+      if (!this.findActiveKey('sig')) {
+        throw new Error('Keyring does not contain an active signing key');
+      }
+
+      await this.ensureCertificates();
+      await this.ensureEncryptionKey();
     } catch (error) {
       console.error('Failed to initialize keys:', error);
       throw error;
@@ -37,102 +123,476 @@ export class KeyService {
   }
 
   /**
-   * Generate new RSA key pair with extractable keys
+   * Reload the keyring from the store to pick up changes made by other replicas.
+   * Unless forced, the keyring is only reloaded once it is older than the
+   * refresh interval, and concurrent callers share one reload.
    */
-  private async generateKeyPair(): Promise<void> {
-    const { publicKey, privateKey } = await jose.generateKeyPair('RS256', {
-      modulusLength: 2048,
+  async refreshKeys(force: boolean = false): Promise<void> {
+    if (!force && (this.pendingRefresh || Date.now() - this.lastRefreshAt < REFRESH_INTERVAL_MS)) {
+      return this.pendingRefresh || undefined;
+    }
+
+    const refresh = this.loadKeys()
+      .then(() => undefined, error => {
+        // Keep using the loaded keyring, and wait for the next interval before retrying
+        this.lastRefreshAt = Date.now();
+        console.error('Failed to refresh keys:', error);
+      })
+      .finally(() => {
+        if (this.pendingRefresh === refresh) {
+          this.pendingRefresh = null;
+        }
+      });
+    this.pendingRefresh = refresh;
+    return refresh;
+  }
+
+  /**
+   * Generate new key pair for the given algorithm with extractable keys.
+   * The key ID defaults to the key's RFC 7638 thumbprint. Only signing keys
+   * get a self-signed certificate.
+   */
+  private async generateKeyPair(status: KeyStatus, alg: KeyAlgorithm, kid?: string): Promise<ManagedKey> {
+    const { publicKey, privateKey } = await jose.generateKeyPair(alg, {
+      modulusLength: 2048, // Only used by RSA algorithms
+      crv: alg === 'EdDSA' ? 'Ed25519' : undefined, // ECDH-ES defaults to P-256
       extractable: true, // Make keys extractable
     });
 
-    this.privateKey = privateKey;
-    this.publicKey = publicKey;
+    const now = new Date();
+    const use = getKeyUse(alg);
+
+    return {
+      kid: kid || await this.calculateThumbprint(publicKey),
+      use,
+      alg,
+      status,
+      privateKey,
+      publicKey,
+      certificate: use === 'sig'
+        ? await certificateService.createSelfSignedCertificate(privateKey, publicKey, alg as SigningAlgorithm)
+        : undefined,
+      createdAt: now,
+      activatedAt: status === 'active' ? now : undefined
+    };
+  }
 
+  /**
+   * Load the keyring from the store. Returns false when no keyring exists yet.
+   */
+  private async loadKeys(): Promise<boolean> {
     try {
-      // Export keys to PEM format for storage
-      const privateKeyPem = await jose.exportPKCS8(privateKey);
-      const publicKeyPem = await jose.exportSPKI(publicKey);
+      const storedKeys = await this.getStore().load();
+      this.lastRefreshAt = Date.now();
+
+      if (!storedKeys) {
+        return false;
+      }
+
+      this.keys = await Promise.all(storedKeys.map(stored => this.deserializeKey(stored)));
 
-      // Save keys to files
-      await fs.writeFile(this.getPrivateKeyPath(), privateKeyPem);
-      await fs.writeFile(this.getPublicKeyPath(), publicKeyPem);
+      // Encrypt keys that were stored before a passphrase was configured
+      if (this.passphrase && storedKeys.some(stored => !this.isEncrypted(stored.privateKey))) {
+        console.log('Encrypting stored private keys with KEY_PASSPHRASE...');
+        await this.writeKeyring();
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Failed to load keys:', error);
+      throw error;
+    }
+  }
 
-      console.log('RSA key pair generated and saved successfully');
+  /**
+   * Persist the keyring to the store while initializing, falling back to
+   * in-memory keys when the store is unavailable
+   */
+  private async saveKeys(): Promise<void> {
+    try {
+      await this.writeKeyring();
     } catch (exportError) {
-      console.warn('Failed to export keys to files:', exportError);
+      console.warn(`Failed to save keyring to ${this.getStore().name} key store:`, exportError);
       console.log('Continuing with in-memory keys only');
     }
   }
 
+  private async writeKeyring(): Promise<void> {
+    const storedKeys = await Promise.all(this.keys.map(key => this.serializeKey(key)));
+    await this.getStore().save(storedKeys);
+  }
+
   /**
-   * Load existing keys from files
+   * Persist the keys a change touched, one at a time. Each write only applies
+   * while the stored key is still in the state this replica changed it from, so
+   * a replica with a stale keyring cannot undo another replica's change. When a
+   * write fails, the keyring is restored and reloaded from the store.
    */
-  private async loadKeys(): Promise<void> {
+  private async commitKeys(previous: ManagedKey[], changes: KeyChange[]): Promise<void> {
     try {
-      const privateKeyPem = await fs.readFile(this.getPrivateKeyPath(), 'utf8');
-      const publicKeyPem = await fs.readFile(this.getPublicKeyPath(), 'utf8');
+      await this.persistKeys(changes);
+    } catch (error) {
+      this.keys = previous;
+      await this.refreshKeys(true);
+      throw this.toWriteError(error);
+    }
+  }
 
-      this.privateKey = await jose.importPKCS8(privateKeyPem, 'RS256');
-      this.publicKey = await jose.importSPKI(publicKeyPem, 'RS256');
+  private async persistKeys(changes: KeyChange[]): Promise<void> {
+    for (const { key, from } of changes) {
+      await this.getStore().saveKey(await this.serializeKey(key), from);
+    }
+  }
 
-      console.log('RSA keys loaded successfully');
+  private toWriteError(error: unknown): Error {
+    return error instanceof KeyConflictError ? error : new KeyringWriteError(this.getStore().name, error);
+  }
+
+  /**
+   * Copy the keyring so a change can be undone; changes replace fields of a key
+   */
+  private snapshotKeys(): ManagedKey[] {
+    return this.keys.map(key => ({ ...key }));
+  }
+
+  /**
+   * Re-encrypt every private key in the keyring under a new passphrase.
+   * Passing undefined stores the keys unencrypted.
+   */
+  async rewrapKeys(newPassphrase: string | undefined): Promise<void> {
+    this.passphrase = readSecret('KEY_PASSPHRASE');
+
+    if (!await this.loadKeys()) {
+      throw new Error(`No keyring found in ${this.getStore().name} key store`);
+    }
+
+    this.passphrase = newPassphrase;
+    await this.writeKeyring();
+
+    console.log(`Re-wrapped ${this.keys.length} keys ${newPassphrase ? 'under the new passphrase' : 'without encryption'}`);
+  }
+
+  /**
+   * Stage a new key in the pending state. It is published in the JWKS
+   * immediately but not used until it is activated.
+   * Defaults to the algorithm configured by JWT_SIGNING_ALG.
+   */
+  async stageKey(alg: KeyAlgorithm = this.algorithm): Promise<ManagedKey> {
+    this.assertSupportedAlgorithm(alg);
+    const key = await this.generateKeyPair('pending', alg);
+    await this.refreshKeys(true);
+    const previous = this.snapshotKeys();
+    this.keys.push(key);
+    await this.commitKeys(previous, [{ key }]);
+
+    console.log(`Staged new ${this.describeUse(key.use)} key ${key.kid}`);
+    return key;
+  }
+
+  /**
+   * Import an existing private key (PEM or JWK) into the keyring, e.g. when
+   * moving signing keys off another service. Keys are imported as pending
+   * unless another status is requested.
+   */
+  async importKey(material: KeyImportMaterial, options: KeyImportOptions = {}): Promise<ManagedKey> {
+    const alg = (options.alg || material.jwk?.alg) as KeyAlgorithm;
+    if (!alg) {
+      throw new Error('Algorithm is required to import a key');
+    }
+    this.assertSupportedAlgorithm(alg);
+    const use = getKeyUse(alg);
+
+    let privateKey: jose.KeyLike;
+    let publicKey: jose.KeyLike;
+
+    if (material.jwk) {
+      if (!material.jwk.d) {
+        throw new Error('JWK must contain private key material');
+      }
+      const { d, p, q, dp, dq, qi, ...publicJwk } = material.jwk;
+      privateKey = await jose.importJWK(material.jwk, alg) as jose.KeyLike;
+      publicKey = await jose.importJWK(publicJwk, alg) as jose.KeyLike;
+    } else if (material.pem) {
+      // Accept PKCS#1, SEC1 and PKCS#8 encodings and normalize to PKCS#8
+      const keyObject = createPrivateKey(material.pem);
+      const privateKeyPem = keyObject.export({ type: 'pkcs8', format: 'pem' }) as string;
+      const publicKeyPem = createPublicKey(keyObject).export({ type: 'spki', format: 'pem' }) as string;
+      privateKey = await jose.importPKCS8(privateKeyPem, alg, { extractable: true });
+      publicKey = await jose.importSPKI(publicKeyPem, alg, { extractable: true });
+    } else {
+      throw new Error('A PEM or JWK private key is required');
+    }
+
+    // Make sure the key actually works with the declared algorithm
+    const probeData = new TextEncoder().encode('key-import-check');
+    if (use === 'enc') {
+      const probe = await new jose.CompactEncrypt(probeData)
+        .setProtectedHeader({ alg, enc: 'A256GCM' })
+        .encrypt(publicKey);
+      await jose.compactDecrypt(probe, privateKey);
+    } else {
+      const probe = await new jose.CompactSign(probeData)
+        .setProtectedHeader({ alg })
+        .sign(privateKey);
+      await jose.compactVerify(probe, publicKey);
+    }
+
+    const kid = options.kid || material.jwk?.kid || await this.calculateThumbprint(publicKey);
+    await this.refreshKeys(true);
+    if (this.keys.some(key => key.kid === kid)) {
+      throw new Error(`Key ${kid} already exists`);
+    }
+
+    let certificate: string | undefined;
+    if (material.certificate) {
+      certificate = await certificateService.validateCertificateChain(material.certificate, publicKey);
+    } else if (use === 'sig') {
+      certificate = await certificateService.createSelfSignedCertificate(privateKey, publicKey, alg as SigningAlgorithm);
+    }
+
+    const now = new Date();
+    const key: ManagedKey = {
+      kid,
+      use,
+      alg,
+      status: options.status === 'retiring' ? 'retiring' : 'pending',
+      privateKey,
+      publicKey,
+      certificate,
+      createdAt: now,
+      retiringAt: options.status === 'retiring' ? now : undefined
+    };
+
+    const previous = this.snapshotKeys();
+    this.keys.push(key);
+    await this.commitKeys(previous, options.status === 'active' ? this.promoteKey(key) : [{ key }]);
+
+    console.log(`Imported ${alg} ${this.describeUse(use)} key ${kid}`);
+    return key;
+  }
+
+  /**
+   * Replace a key's certificate, e.g. with a CA-signed certificate chain (leaf first)
+   */
+  async setCertificate(kid: string, chainPem: string): Promise<ManagedKey> {
+    await this.refreshKeys(true);
+    const key = this.findKey(kid);
+    const certificate = await certificateService.validateCertificateChain(chainPem, key.publicKey);
+    const previous = this.snapshotKeys();
+    key.certificate = certificate;
+    await this.commitKeys(previous, [{ key, from: [key.status] }]);
+
+    console.log(`Updated certificate for ${this.describeUse(key.use)} key ${kid}`);
+    return key;
+  }
+
+  /**
+   * Create a PKCS#10 certificate signing request for a key
+   */
+  async createCertificateSigningRequest(kid: string, subject?: string): Promise<string> {
+    const key = this.findKey(kid);
+    if (key.use !== 'sig') {
+      throw new Error(`Key ${kid} is an encryption key and cannot sign a certificate signing request`);
+    }
+    return certificateService.createCertificateSigningRequest(key.privateKey, key.publicKey, key.alg as SigningAlgorithm, subject);
+  }
+
+  /**
+   * Promote a pending key to active. The previously active key of the same
+   * use moves to retiring and stays published so its tokens can still be
+   * verified (or, for encryption keys, decrypted).
+   */
+  async activateKey(kid: string): Promise<ManagedKey> {
+    await this.refreshKeys(true);
+    const key = this.findKey(kid);
+    if (key.status !== 'pending') {
+      throw new Error(`Key ${kid} is ${key.status}, only pending keys can be activated`);
+    }
+
+    const previous = this.snapshotKeys();
+    await this.commitKeys(previous, this.promoteKey(key, ['pending']));
+
+    console.log(`Activated ${this.describeUse(key.use)} key ${kid}`);
+    return key;
+  }
+
+  /**
+   * Retire a retiring or pending key, removing it from the JWKS
+   */
+  async retireKey(kid: string): Promise<ManagedKey> {
+    await this.refreshKeys(true);
+    const key = this.findKey(kid);
+    if (key.status !== 'retiring' && key.status !== 'pending') {
+      throw new Error(`Key ${kid} is ${key.status}, only retiring or pending keys can be retired`);
+    }
+
+    const previous = this.snapshotKeys();
+    const from = [key.status];
+    key.status = 'retired';
+    key.retiredAt = new Date();
+    await this.commitKeys(previous, [{ key, from }]);
+
+    console.log(`Retired ${this.describeUse(key.use)} key ${kid}`);
+    return key;
+  }
+
+  /**
+   * Revoke a compromised key immediately. It is removed from the JWKS and every
+   * token carrying its kid is rejected. If it was the active key, a pending key
+   * (or a freshly generated one) is activated in its place without waiting for
+   * JWKS caches to pick it up.
+   */
+  async revokeKey(kid: string, reason: string = 'compromised'): Promise<{ revoked: ManagedKey; replacement?: ManagedKey }> {
+    await this.refreshKeys(true);
+    const key = this.findKey(kid);
+    if (key.status === 'revoked') {
+      throw new Error(`Key ${kid} is already revoked`);
+    }
+
+    const wasActive = key.status === 'active';
+
+    key.status = 'revoked';
+    key.revokedAt = new Date();
+    key.revocationReason = reason;
+    const changes: KeyChange[] = [{ key, from: REVOCABLE_STATUSES }];
+
+    let replacement: ManagedKey | undefined;
+    if (wasActive) {
+      replacement = this.keys.find(candidate => candidate.status === 'pending' && candidate.use === key.use);
+      if (replacement) {
+        changes.push(...this.promoteKey(replacement, ['pending']));
+      } else {
+        const alg = key.use === 'enc' ? this.encryptionAlgorithm || key.alg : this.algorithm;
+        replacement = await this.generateKeyPair('pending', alg);
+        this.keys.push(replacement);
+        changes.push(...this.promoteKey(replacement));
+      }
+    }
+
+    // Unlike other changes, a revocation stays in effect in memory when it cannot
+    // be saved: this replica must stop trusting the key either way
+    try {
+      await this.persistKeys(changes);
     } catch (error) {
-      console.error('Failed to load keys:', error);
-      throw error;
+      throw this.toWriteError(error);
     }
+
+    console.warn(`[SECURITY] ${key.use === 'enc' ? 'Encryption' : 'Signing'} key ${kid} revoked (${reason})` +
+      (replacement ? `; replacement key ${replacement.kid} activated` : ''));
+
+    return { revoked: key, replacement };
   }
 
   /**
-   * Get private key for signing
+   * Make a key active and move the active key of the same use to retiring.
+   * Returns the changes to persist, demotions first so the store never holds
+   * two active keys of the same use.
    */
-  getPrivateKey(): any {
-    if (!this.privateKey) {
+  private promoteKey(key: ManagedKey, from?: KeyStatus[]): KeyChange[] {
+    const now = new Date();
+    const demoted = this.keys.filter(current => current !== key && current.status === 'active' && current.use === key.use);
+    for (const current of demoted) {
+      current.status = 'retiring';
+      current.retiringAt = now;
+    }
+
+    key.status = 'active';
+    key.activatedAt = now;
+
+    return [...demoted.map(current => ({ key: current, from: ['active'] as KeyStatus[] })), { key, from }];
+  }
+
+  /**
+   * Get all keys in the keyring, including retired ones
+   */
+  getKeys(): ManagedKey[] {
+    return [...this.keys];
+  }
+
+  /**
+   * Get a key by ID regardless of its status
+   */
+  getKey(kid: string): ManagedKey | undefined {
+    return this.keys.find(key => key.kid === kid);
+  }
+
+  /**
+   * Get the active key used for signing
+   */
+  getSigningKey(): ManagedKey {
+    const key = this.findActiveKey('sig');
+    if (!key) {
       throw new Error('Private key not initialized');
     }
-    return this.privateKey;
+    return key;
+  }
+
+  /**
+   * Get the public key matching a token's kid header.
+   * Tokens without a kid are verified against the active key.
+   */
+  getVerificationKey(kid?: string): ManagedKey | undefined {
+    return this.findPublishedKey('sig', kid);
+  }
+
+  /**
+   * Get the active encryption key clients should encrypt tokens to, if one exists
+   */
+  getEncryptionKey(): ManagedKey | undefined {
+    return this.findActiveKey('enc');
+  }
+
+  /**
+   * Get the private key matching the kid header of a token encrypted to us.
+   * Tokens without a kid are decrypted with the active encryption key.
+   */
+  getDecryptionKey(kid?: string): ManagedKey | undefined {
+    return this.findPublishedKey('enc', kid);
+  }
+
+  /**
+   * Get private key for signing
+   */
+  getPrivateKey(): any {
+    return this.getSigningKey().privateKey;
   }
 
   /**
    * Get public key for verification
    */
   getPublicKey(): any {
-    if (!this.publicKey) {
+    const key = this.findActiveKey('sig');
+    if (!key) {
       throw new Error('Public key not initialized');
     }
-    return this.publicKey;
+    return key.publicKey;
   }
 
   /**
    * Get key ID
    */
   getKeyId(): string {
-    return this.keyId;
+    return this.getSigningKey().kid;
   }
 
   /**
-   * Generate JWKS (JSON Web Key Set) for public key distribution
+   * Generate JWKS (JSON Web Key Set) for public key distribution.
+   * Pending and retiring keys are published alongside the active keys,
+   * and encryption keys alongside signing keys.
    */
   async getJWKS(): Promise<JWKS> {
-    if (!this.publicKey) {
+    await this.refreshKeys();
+    const publishedKeys = this.keys.filter(key => PUBLISHED_STATUSES.includes(key.status));
+
+    if (publishedKeys.length === 0) {
       throw new Error('Public key not initialized');
     }
 
     try {
-      // Export public key as JWK
-      const jwk = await jose.exportJWK(this.publicKey);
-
-      const jwksKey: JWKSKey = {
-        kty: jwk.kty || 'RSA',
-        use: 'sig',
-        key_ops: ['verify'],
-        alg: 'RS256',
-        kid: this.keyId,
-        n: jwk.n || '',
-        e: jwk.e || ''
-      };
+      const jwksKeys = await Promise.all(publishedKeys.map(key => this.exportPublicJWK(key)));
 
       return {
-        keys: [jwksKey]
+        keys: jwksKeys
       };
     } catch (error) {
       console.error('Failed to generate JWKS:', error);
@@ -140,32 +600,217 @@ export class KeyService {
     }
   }
 
+  /**
+   * Calculate the RFC 7638 JWK thumbprint (SHA-256, base64url) of a public key
+   */
+  async calculateThumbprint(publicKey: jose.KeyLike): Promise<string> {
+    return jose.calculateJwkThumbprint(await jose.exportJWK(publicKey), 'sha256');
+  }
+
+  /**
+   * Calculate the SHA-256 digest (base64url) of a public key's DER-encoded SPKI,
+   * matching `openssl pkey -pubin -outform DER | openssl dgst -sha256`
+   */
+  async calculateSpkiThumbprint(publicKey: jose.KeyLike): Promise<string> {
+    const der = createPublicKey(await jose.exportSPKI(publicKey)).export({ type: 'spki', format: 'der' });
+    return createHash('sha256').update(der).digest('base64url');
+  }
+
+  /**
+   * Export a key's public material as a JWKS entry
+   */
+  async exportPublicJWK(key: ManagedKey): Promise<JWKSKey> {
+    const jwk = await jose.exportJWK(key.publicKey);
+
+    return {
+      kty: jwk.kty || 'RSA',
+      use: key.use,
+      key_ops: [this.getPublicKeyOperation(key.alg)],
+      alg: key.alg,
+      kid: key.kid,
+      n: jwk.n,
+      e: jwk.e,
+      crv: jwk.crv,
+      x: jwk.x,
+      y: jwk.y,
+      ...(key.certificate ? certificateService.getJwkCertificateParams(key.certificate) : {})
+    };
+  }
+
   /**
    * Helper methods
    */
-  private async ensureKeysDirectory(): Promise<void> {
-    try {
-      await fs.access(this.keysDir);
-    } catch {
-      await fs.mkdir(this.keysDir, { recursive: true });
+  private assertSupportedAlgorithm(alg: string, use?: KeyUse): void {
+    if (use !== 'enc' && SUPPORTED_ALGORITHMS.includes(alg as SigningAlgorithm)) {
+      return;
     }
+    if (use !== 'sig' && SUPPORTED_ENCRYPTION_ALGORITHMS.includes(alg as EncryptionAlgorithm)) {
+      return;
+    }
+
+    const expected = [
+      ...(use !== 'enc' ? SUPPORTED_ALGORITHMS : []),
+      ...(use !== 'sig' ? SUPPORTED_ENCRYPTION_ALGORITHMS : [])
+    ];
+    const kind = use ? this.describeUse(use) : 'key';
+    throw new Error(`Unsupported ${kind} algorithm ${alg}, expected one of ${expected.join(', ')}`);
   }
 
-  private async fileExists(filePath: string): Promise<boolean> {
-    try {
-      await fs.access(filePath);
-      return true;
-    } catch {
-      return false;
+  /**
+   * The RFC 7517 key_ops value for what clients do with the public key
+   */
+  private getPublicKeyOperation(alg: KeyAlgorithm): string {
+    switch (alg) {
+      case 'RSA-OAEP-256': return 'wrapKey';
+      case 'ECDH-ES': return 'deriveKey';
+      default: return 'verify';
+    }
+  }
+
+  private describeUse(use: KeyUse): string {
+    return use === 'enc' ? 'encryption' : 'signing';
+  }
+
+  private findActiveKey(use: KeyUse): ManagedKey | undefined {
+    return this.keys.find(key => key.status === 'active' && key.use === use);
+  }
+
+  private findPublishedKey(use: KeyUse, kid?: string): ManagedKey | undefined {
+    if (!kid) {
+      return this.findActiveKey(use);
+    }
+    return this.keys.find(key => key.kid === kid && key.use === use && PUBLISHED_STATUSES.includes(key.status));
+  }
+
+  /**
+   * Create self-signed certificates for published keys stored before certificates were issued
+   */
+  private async ensureCertificates(): Promise<void> {
+    const missing = this.keys.filter(key =>
+      key.use === 'sig' && !key.certificate && PUBLISHED_STATUSES.includes(key.status));
+    if (missing.length === 0) {
+      return;
+    }
+
+    for (const key of missing) {
+      key.certificate = await certificateService.createSelfSignedCertificate(
+        key.privateKey, key.publicKey, key.alg as SigningAlgorithm);
+    }
+
+    console.log(`Issued self-signed certificates for ${missing.length} existing keys`);
+    await this.saveKeys();
+  }
+
+  /**
+   * Generate the first encryption key when JWT_ENCRYPTION_ALG is configured
+   */
+  private async ensureEncryptionKey(): Promise<void> {
+    if (!this.encryptionAlgorithm || this.findActiveKey('enc')) {
+      return;
+    }
+
+    console.log(`Generating new ${this.encryptionAlgorithm} encryption key pair...`);
+    this.keys.push(await this.generateKeyPair('active', this.encryptionAlgorithm));
+    await this.saveKeys();
+
+    // Another replica sharing the store may have created its encryption key at the same time
+    await this.loadKeys();
+  }
+
+  private getStore(): KeyStore {
+    if (!this.store) {
+      this.store = createKeyStore();
     }
+    return this.store;
+  }
+
+  private isEncrypted(privateKeyPem: string): boolean {
+    return privateKeyPem.includes('BEGIN ENCRYPTED PRIVATE KEY');
+  }
+
+  private findKey(kid: string): ManagedKey {
+    const key = this.keys.find(candidate => candidate.kid === kid);
+    if (!key) {
+      throw new Error(`Key ${kid} not found`);
+    }
+    return key;
+  }
+
+  private async serializeKey(key: ManagedKey): Promise<StoredKey> {
+    return {
+      kid: key.kid,
+      use: key.use,
+      alg: key.alg,
+      status: key.status,
+      privateKey: await this.encryptPrivateKey(key.privateKey),
+      publicKey: await jose.exportSPKI(key.publicKey),
+      certificate: key.certificate,
+      createdAt: key.createdAt.toISOString(),
+      activatedAt: key.activatedAt?.toISOString(),
+      retiringAt: key.retiringAt?.toISOString(),
+      retiredAt: key.retiredAt?.toISOString(),
+      revokedAt: key.revokedAt?.toISOString(),
+      revocationReason: key.revocationReason
+    };
+  }
+
+  private async deserializeKey(stored: StoredKey): Promise<ManagedKey> {
+    return {
+      kid: stored.kid,
+      use: stored.use || 'sig',
+      alg: stored.alg,
+      status: stored.status,
+      privateKey: await this.decryptPrivateKey(stored),
+      publicKey: await jose.importSPKI(stored.publicKey, stored.alg, { extractable: true }),
+      certificate: stored.certificate,
+      createdAt: new Date(stored.createdAt),
+      activatedAt: stored.activatedAt ? new Date(stored.activatedAt) : undefined,
+      retiringAt: stored.retiringAt ? new Date(stored.retiringAt) : undefined,
+      retiredAt: stored.retiredAt ? new Date(stored.retiredAt) : undefined,
+      revokedAt: stored.revokedAt ? new Date(stored.revokedAt) : undefined,
+      revocationReason: stored.revocationReason
+    };
   }
 
-  private getPrivateKeyPath(): string {
-    return path.join(this.keysDir, 'private-key.pem');
+  /**
+   * Export a private key as PKCS#8, encrypted under KEY_PASSPHRASE when one is configured
+   */
+  private async encryptPrivateKey(privateKey: jose.KeyLike): Promise<string> {
+    const pem = await jose.exportPKCS8(privateKey);
+
+    if (!this.passphrase) {
+      return pem;
+    }
+
+    return createPrivateKey(pem).export({
+      type: 'pkcs8',
+      format: 'pem',
+      cipher: PRIVATE_KEY_CIPHER,
+      passphrase: this.passphrase
+    }) as string;
   }
 
-  private getPublicKeyPath(): string {
-    return path.join(this.keysDir, 'public-key.pem');
+  /**
+   * Import a stored private key, decrypting it in memory if it is passphrase-protected
+   */
+  private async decryptPrivateKey(stored: StoredKey): Promise<jose.KeyLike> {
+    if (!this.isEncrypted(stored.privateKey)) {
+      return jose.importPKCS8(stored.privateKey, stored.alg, { extractable: true });
+    }
+
+    if (!this.passphrase) {
+      throw new Error(`Private key ${stored.kid} is encrypted but KEY_PASSPHRASE is not set`);
+    }
+
+    let pem: string;
+    try {
+      pem = createPrivateKey({ key: stored.privateKey, format: 'pem', passphrase: this.passphrase })
+        .export({ type: 'pkcs8', format: 'pem' }) as string;
+    } catch {
+      throw new Error(`Failed to decrypt private key ${stored.kid}: KEY_PASSPHRASE is incorrect`);
+    }
+
+    return jose.importPKCS8(pem, stored.alg, { extractable: true });
   }
 }
 
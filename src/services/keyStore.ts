@@ -0,0 +1,334 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { database } from '../utils/database';
+import { SigningKeyModel } from '../models/SigningKey';
+import { KeyStatus, StoredKey } from '../types';
+
+const LEGACY_KEY_ID = 'default-key-id';
+
+// Fields recording where a key is in its lifecycle. Once a key is stored, only
+// saveKey changes them.
+const LIFECYCLE_FIELDS = ['status', 'activatedAt', 'retiringAt', 'retiredAt', 'revokedAt', 'revocationReason'] as const;
+
+/**
+ * Thrown when a key is not in the state a change expected, e.g. because another
+ * replica activated, retired or revoked it since this replica loaded the keyring
+ */
+export class KeyConflictError extends Error {
+  constructor(kid: string) {
+    super(`Key ${kid} was changed by another replica, reload the keyring and try again`);
+    this.name = 'KeyConflictError';
+  }
+}
+
+/**
+ * Persistence backend for the keyring. Keys are passed in their serialized
+ * form, so private keys are already encrypted when a passphrase is configured.
+ */
+export interface KeyStore {
+  readonly name: string;
+
+  /**
+   * Load all stored keys, or null when no keyring has been created yet
+   */
+  load(): Promise<StoredKey[] | null>;
+
+  /**
+   * Persist the key material of the keyring. Keys that are already stored keep
+   * their stored status, so a stale copy of the keyring cannot undo a change.
+   */
+  save(keys: StoredKey[]): Promise<void>;
+
+  /**
+   * Persist a single key. With expected statuses, the write only succeeds while
+   * the stored key is in one of them; without, the key must not be stored yet.
+   * Throws KeyConflictError otherwise.
+   */
+  saveKey(key: StoredKey, expectedStatuses?: KeyStatus[]): Promise<void>;
+}
+
+const isLifecycleField = (field: string): boolean => (LIFECYCLE_FIELDS as readonly string[]).includes(field);
+
+const pickLifecycle = (key: StoredKey): Partial<StoredKey> =>
+  Object.fromEntries(LIFECYCLE_FIELDS.map(field => [field, key[field]]));
+
+/**
+ * Merge keys into a stored keyring, keeping the lifecycle of keys already stored
+ */
+const mergeKeyring = (stored: StoredKey[], keys: StoredKey[]): StoredKey[] => {
+  const updated = stored.map(existing => {
+    const key = keys.find(candidate => candidate.kid === existing.kid);
+    return key ? { ...key, ...pickLifecycle(existing) } : existing;
+  });
+  const added = keys.filter(key => !stored.some(existing => existing.kid === key.kid));
+
+  return [...updated, ...added];
+};
+
+/**
+ * Replace (or add) a single key in a stored keyring, see KeyStore.saveKey
+ */
+const replaceKey = (stored: StoredKey[], key: StoredKey, expectedStatuses?: KeyStatus[]): StoredKey[] => {
+  const index = stored.findIndex(existing => existing.kid === key.kid);
+  const expected = expectedStatuses
+    ? index !== -1 && expectedStatuses.includes(stored[index].status)
+    : index === -1;
+  if (!expected) {
+    throw new KeyConflictError(key.kid);
+  }
+
+  return index === -1 ? [...stored, key] : stored.map((existing, i) => i === index ? key : existing);
+};
+
+/**
+ * Stores the keyring as keyring.json in KEYS_DIR
+ */
+export class FileKeyStore implements KeyStore {
+  readonly name = 'file';
+  private keysDir: string;
+
+  constructor(keysDir: string) {
+    this.keysDir = keysDir;
+  }
+
+  async load(): Promise<StoredKey[] | null> {
+    await this.ensureKeysDirectory();
+
+    if (await this.fileExists(this.getKeyringPath())) {
+      return this.readKeyring();
+    }
+
+    if (await this.fileExists(this.getPrivateKeyPath()) && await this.fileExists(this.getPublicKeyPath())) {
+      console.log('Migrating existing RSA keys into keyring...');
+      const keys = await this.loadLegacyKeys();
+      await this.save(keys);
+      console.warn(`Legacy key files in ${this.keysDir} are no longer used; remove private-key.pem once the keyring is backed up`);
+      return keys;
+    }
+
+    return null;
+  }
+
+  async save(keys: StoredKey[]): Promise<void> {
+    await this.ensureKeysDirectory();
+    const stored = await this.fileExists(this.getKeyringPath()) ? await this.readKeyring() : [];
+    await this.writeKeyring(mergeKeyring(stored, keys));
+  }
+
+  async saveKey(key: StoredKey, expectedStatuses?: KeyStatus[]): Promise<void> {
+    await this.ensureKeysDirectory();
+    const stored = await this.fileExists(this.getKeyringPath()) ? await this.readKeyring() : [];
+    await this.writeKeyring(replaceKey(stored, key, expectedStatuses));
+  }
+
+  /**
+   * Import the single key pair written by earlier versions as the active key.
+   * It keeps its original key ID so tokens already in flight stay valid.
+   */
+  private async loadLegacyKeys(): Promise<StoredKey[]> {
+    const now = new Date().toISOString();
+
+    return [{
+      kid: LEGACY_KEY_ID,
+      alg: 'RS256',
+      status: 'active',
+      privateKey: await fs.readFile(this.getPrivateKeyPath(), 'utf8'),
+      publicKey: await fs.readFile(this.getPublicKeyPath(), 'utf8'),
+      createdAt: now,
+      activatedAt: now
+    }];
+  }
+
+  /**
+   * Helper methods
+   */
+  private async readKeyring(): Promise<StoredKey[]> {
+    const content = await fs.readFile(this.getKeyringPath(), 'utf8');
+    return JSON.parse(content).keys || [];
+  }
+
+  private async writeKeyring(keys: StoredKey[]): Promise<void> {
+    const tempPath = `${this.getKeyringPath()}.tmp`;
+
+    // Write to a temporary file first so a crash never leaves a truncated keyring
+    await fs.writeFile(tempPath, JSON.stringify({ keys }, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.getKeyringPath());
+  }
+
+  private async ensureKeysDirectory(): Promise<void> {
+    try {
+      await fs.access(this.keysDir);
+    } catch {
+      await fs.mkdir(this.keysDir, { recursive: true });
+    }
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getKeyringPath(): string {
+    return path.join(this.keysDir, 'keyring.json');
+  }
+
+  private getPrivateKeyPath(): string {
+    return path.join(this.keysDir, 'private-key.pem');
+  }
+
+  private getPublicKeyPath(): string {
+    return path.join(this.keysDir, 'public-key.pem');
+  }
+}
+
+/**
+ * Stores the keyring in the signingkeys MongoDB collection so that every
+ * replica connected to the same database shares it
+ */
+export class MongoKeyStore implements KeyStore {
+  readonly name = 'mongodb';
+  private indexesSynced = false;
+
+  async load(): Promise<StoredKey[] | null> {
+    this.assertConnected();
+
+    const documents = await SigningKeyModel.find().sort({ createdAt: 1 }).lean();
+    if (documents.length === 0) {
+      return null;
+    }
+
+    return documents.map((document): StoredKey => ({
+      kid: document.kid,
+      use: document.use,
+      alg: document.alg,
+      status: document.status,
+      privateKey: document.privateKey,
+      publicKey: document.publicKey,
+      certificate: document.certificate,
+      createdAt: document.createdAt.toISOString(),
+      activatedAt: document.activatedAt?.toISOString(),
+      retiringAt: document.retiringAt?.toISOString(),
+      retiredAt: document.retiredAt?.toISOString(),
+      revokedAt: document.revokedAt?.toISOString(),
+      revocationReason: document.revocationReason
+    }));
+  }
+
+  async save(keys: StoredKey[]): Promise<void> {
+    this.assertConnected();
+    await this.syncIndexes();
+
+    await SigningKeyModel.bulkWrite(keys.map(key => {
+      const document = this.toDocument(key);
+      const lifecycle = Object.fromEntries(Object.entries(document).filter(([field]) => isLifecycleField(field)));
+      const material = Object.fromEntries(Object.entries(document).filter(([field]) => !isLifecycleField(field)));
+
+      return {
+        updateOne: {
+          filter: { kid: key.kid },
+          update: { $set: material, $setOnInsert: lifecycle },
+          upsert: true
+        }
+      };
+    }), { ordered: true });
+  }
+
+  async saveKey(key: StoredKey, expectedStatuses?: KeyStatus[]): Promise<void> {
+    this.assertConnected();
+    await this.syncIndexes();
+
+    try {
+      if (!expectedStatuses) {
+        await SigningKeyModel.create({ kid: key.kid, ...this.toDocument(key) });
+        return;
+      }
+
+      const result = await SigningKeyModel.updateOne(
+        { kid: key.kid, status: { $in: expectedStatuses } },
+        { $set: this.toDocument(key) }
+      );
+      if (result.matchedCount === 0) {
+        throw new KeyConflictError(key.kid);
+      }
+    } catch (error: any) {
+      // A duplicate kid, or a second active key of the same use
+      if (error?.code === 11000) {
+        throw new KeyConflictError(key.kid);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the single-active-key index from earlier versions with the per-use one
+   */
+  private async syncIndexes(): Promise<void> {
+    if (!this.indexesSynced) {
+      await SigningKeyModel.syncIndexes();
+      this.indexesSynced = true;
+    }
+  }
+
+  private toDocument(key: StoredKey): Record<string, unknown> {
+    const document: Record<string, unknown> = {
+      use: key.use || 'sig',
+      alg: key.alg,
+      status: key.status,
+      privateKey: key.privateKey,
+      publicKey: key.publicKey,
+      createdAt: new Date(key.createdAt)
+    };
+
+    if (key.certificate) document.certificate = key.certificate;
+    if (key.activatedAt) document.activatedAt = new Date(key.activatedAt);
+    if (key.retiringAt) document.retiringAt = new Date(key.retiringAt);
+    if (key.retiredAt) document.retiredAt = new Date(key.retiredAt);
+    if (key.revokedAt) document.revokedAt = new Date(key.revokedAt);
+    if (key.revocationReason) document.revocationReason = key.revocationReason;
+
+    return document;
+  }
+
+  private assertConnected(): void {
+    if (!database.isDbConnected()) {
+      throw new Error('KEY_STORE=mongodb requires a MongoDB connection');
+    }
+  }
+}
+
+/**
+ * Keeps the keyring in process memory only. Keys are lost on restart.
+ */
+export class MemoryKeyStore implements KeyStore {
+  readonly name = 'memory';
+  private keys: StoredKey[] | null = null;
+
+  async load(): Promise<StoredKey[] | null> {
+    return this.keys ? this.keys.map(key => ({ ...key })) : null;
+  }
+
+  async save(keys: StoredKey[]): Promise<void> {
+    this.keys = mergeKeyring(this.keys || [], keys.map(key => ({ ...key })));
+  }
+
+  async saveKey(key: StoredKey, expectedStatuses?: KeyStatus[]): Promise<void> {
+    this.keys = replaceKey(this.keys || [], { ...key }, expectedStatuses);
+  }
+}
+
+/**
+ * Create the key store selected by KEY_STORE (file, mongodb or memory)
+ */
+export const createKeyStore = (type: string = process.env.KEY_STORE || 'file'): KeyStore => {
+  switch (type) {
+    case 'file': return new FileKeyStore(process.env.KEYS_DIR || './keys');
+    case 'mongodb': return new MongoKeyStore();
+    case 'memory': return new MemoryKeyStore();
+    default:
+      throw new Error(`Unsupported KEY_STORE ${type}, expected one of file, mongodb, memory`);
+  }
+};
@@ -0,0 +1,188 @@
+import { ServerOptions } from 'https';
+import { TLSSocket } from 'tls';
+import { Socket } from 'net';
+import { createHash, X509Certificate } from 'crypto';
+import { readSecret } from '../utils/secrets';
+import { OAuthClient } from '../types';
+
+// Client authentication methods based on a TLS client certificate (RFC 8705 section 2)
+export const TLS_CLIENT_AUTH_METHODS = ['tls_client_auth', 'self_signed_tls_client_auth'] as const;
+
+export interface PresentedCertificate {
+  // base64url SHA-256 of the DER certificate, as in cnf["x5t#S256"]
+  thumbprint: string;
+  // Subject DN in RFC 4514 form, e.g. CN=billing,O=Example
+  subjectDn: string;
+  // Whether the certificate chains to a CA in TLS_CLIENT_CA
+  trusted: boolean;
+}
+
+/**
+ * Mutual TLS (RFC 8705): serving HTTPS with optional client certificates,
+ * authenticating clients with them, and binding tokens to them
+ */
+export class MtlsService {
+  private serverOptions?: ServerOptions;
+  private clientCa?: string;
+
+  constructor() {
+    const cert = readSecret('TLS_CERT');
+    const key = readSecret('TLS_KEY');
+    if (!cert && !key) {
+      return;
+    }
+    if (!cert || !key) {
+      throw new Error('TLS_CERT and TLS_KEY must both be set to serve HTTPS');
+    }
+
+    // CAs client certificates are checked against for tls_client_auth. Without
+    // it Node would trust its public root CAs, so tls_client_auth is disabled.
+    this.clientCa = readSecret('TLS_CLIENT_CA');
+    if (!this.clientCa) {
+      console.warn('TLS_CLIENT_CA is not set: tls_client_auth is disabled, self_signed_tls_client_auth still works');
+    }
+
+    this.serverOptions = {
+      cert,
+      key,
+      ca: this.clientCa,
+      // Ask every client for a certificate but accept connections without a
+      // trusted one: most endpoints don't need it, and self-signed certificates
+      // are checked against their registered thumbprint instead
+      requestCert: true,
+      rejectUnauthorized: false
+    };
+  }
+
+  /**
+   * HTTPS server options, or undefined to serve plain HTTP
+   */
+  getServerOptions(): ServerOptions | undefined {
+    return this.serverOptions;
+  }
+
+  isEnabled(): boolean {
+    return this.serverOptions !== undefined;
+  }
+
+  /**
+   * The TLS client authentication methods clients can use: none without HTTPS,
+   * and tls_client_auth only when TLS_CLIENT_CA names the CAs to trust
+   */
+  getAuthMethods(): string[] {
+    if (!this.isEnabled()) {
+      return [];
+    }
+    return TLS_CLIENT_AUTH_METHODS.filter(method => method !== 'tls_client_auth' || this.clientCa !== undefined);
+  }
+
+  /**
+   * The client certificate presented on a connection, if any
+   */
+  getPresentedCertificate(socket: Socket): PresentedCertificate | undefined {
+    if (!(socket instanceof TLSSocket)) {
+      return undefined;
+    }
+
+    const peer = socket.getPeerCertificate();
+    if (!peer || !peer.raw) {
+      return undefined;
+    }
+
+    return {
+      thumbprint: this.thumbprint(peer.raw),
+      subjectDn: this.toRfc4514(new X509Certificate(peer.raw).subject),
+      trusted: this.clientCa !== undefined && socket.authorized
+    };
+  }
+
+  /**
+   * Check that a certificate authenticates a client registered for one of the
+   * TLS client authentication methods (RFC 8705 sections 2.1 and 2.2)
+   */
+  authenticate(client: OAuthClient, certificate: PresentedCertificate | undefined): boolean {
+    if (!certificate) {
+      return false;
+    }
+
+    switch (client.tokenEndpointAuthMethod) {
+      case 'tls_client_auth':
+        return certificate.trusted && !!client.tlsClientAuthSubjectDn &&
+          this.normalizeDn(certificate.subjectDn) === this.normalizeDn(client.tlsClientAuthSubjectDn);
+      case 'self_signed_tls_client_auth':
+        return client.tlsClientCertificateThumbprints.includes(certificate.thumbprint);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Thumbprint of a PEM certificate, for registering self-signed certificates
+   */
+  thumbprintPem(pem: string): string {
+    let certificate: X509Certificate;
+    try {
+      certificate = new X509Certificate(pem);
+    } catch {
+      throw new Error('tls_client_certificates must be PEM encoded X.509 certificates');
+    }
+    return this.thumbprint(certificate.raw);
+  }
+
+  /**
+   * Normalize a subject DN for comparison: attribute names upper-cased and
+   * whitespace around separators removed, e.g. "cn = billing, o=Example" is
+   * "CN=billing,O=Example"
+   */
+  normalizeDn(dn: string): string {
+    return this.splitDn(dn, ',')
+      .map(rdn => {
+        const separator = rdn.indexOf('=');
+        return separator === -1
+          ? rdn.trim()
+          : `${rdn.substring(0, separator).trim().toUpperCase()}=${rdn.substring(separator + 1).trim()}`;
+      })
+      .join(',');
+  }
+
+  /**
+   * Helper methods
+   */
+  private thumbprint(der: Buffer): string {
+    return createHash('sha256').update(der).digest('base64url');
+  }
+
+  /**
+   * Node lists the subject's RDNs one per line in certificate order; RFC 4514
+   * writes them comma-separated, most specific first
+   */
+  private toRfc4514(subject: string): string {
+    return this.splitDn(subject, '\n').reverse().join(',');
+  }
+
+  /**
+   * Split a DN on a separator, leaving escaped separators (e.g. "\,") alone
+   */
+  private splitDn(dn: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+
+    for (let i = 0; i < dn.length; i++) {
+      if (dn[i] === '\\' && i + 1 < dn.length) {
+        current += dn[i] + dn[i + 1];
+        i++;
+      } else if (dn[i] === separator) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += dn[i];
+      }
+    }
+    parts.push(current);
+
+    return parts.filter(part => part.trim());
+  }
+}
+
+// Singleton instance
+export const mtlsService = new MtlsService();
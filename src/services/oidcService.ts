@@ -0,0 +1,101 @@
+import { UserDocument } from '../models/User';
+import { SUPPORTED_ALGORITHMS } from './keyService';
+import { SUPPORTED_GRANT_TYPES } from './clientService';
+import { DPOP_SIGNING_ALGORITHMS } from './dpopService';
+import { mtlsService } from './mtlsService';
+
+// Scopes defined by OpenID Connect that this provider understands
+export const OIDC_SCOPES = ['openid', 'profile', 'email'];
+
+/**
+ * OpenID Connect provider metadata and the user claims released per scope
+ */
+export class OidcService {
+  private issuer: string;
+
+  constructor() {
+    this.issuer = process.env.JWT_ISSUER || 'jwt-generator-app';
+  }
+
+  /**
+   * Base URL for advertised endpoints: JWT_ISSUER when it is a URL, so clients
+   * can check that the issuer matches where they fetched metadata; otherwise the
+   * request's origin
+   */
+  getBaseUrl(requestOrigin: string): string {
+    return this.isUrl(this.issuer) ? this.issuer.replace(/\/+$/, '') : requestOrigin;
+  }
+
+  /**
+   * Discovery document (OpenID Connect Discovery 1.0 section 3)
+   */
+  getDiscoveryDocument(requestOrigin: string): Record<string, unknown> {
+    const baseUrl = this.getBaseUrl(requestOrigin);
+    // Certificates can only be presented when this server terminates TLS itself
+    const tlsAuthMethods = mtlsService.getAuthMethods();
+
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${baseUrl}/authorize`,
+      token_endpoint: `${baseUrl}/token`,
+      userinfo_endpoint: `${baseUrl}/userinfo`,
+      jwks_uri: `${baseUrl}/api/.well-known/jwks.json`,
+      revocation_endpoint: `${baseUrl}/token/revoke`,
+      introspection_endpoint: `${baseUrl}/token/introspect`,
+      device_authorization_endpoint: `${baseUrl}/device/authorize`,
+      scopes_supported: OIDC_SCOPES,
+      response_types_supported: ['code'],
+      response_modes_supported: ['query'],
+      grant_types_supported: SUPPORTED_GRANT_TYPES,
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: SUPPORTED_ALGORITHMS,
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none', ...tlsAuthMethods],
+      introspection_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', ...tlsAuthMethods],
+      revocation_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none', ...tlsAuthMethods],
+      code_challenge_methods_supported: ['S256'],
+      dpop_signing_alg_values_supported: DPOP_SIGNING_ALGORITHMS,
+      tls_client_certificate_bound_access_tokens: mtlsService.isEnabled(),
+      claims_supported: [
+        'iss', 'sub', 'aud', 'exp', 'iat', 'auth_time', 'nonce', 'at_hash',
+        'preferred_username', 'updated_at', 'email', 'email_verified'
+      ]
+    };
+  }
+
+  /**
+   * Claims about a user released for the granted scopes (OIDC Core section 5.4)
+   */
+  getUserClaims(user: UserDocument, scopes: string[]): Record<string, unknown> {
+    const claims: Record<string, unknown> = {};
+
+    if (scopes.includes('profile')) {
+      claims.preferred_username = user.username;
+      if (user.updatedAt) {
+        claims.updated_at = Math.floor(user.updatedAt.getTime() / 1000);
+      }
+    }
+
+    if (scopes.includes('email')) {
+      claims.email = user.email;
+      // Email addresses are not verified at registration
+      claims.email_verified = false;
+    }
+
+    return claims;
+  }
+
+  /**
+   * Helper methods
+   */
+  private isUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Singleton instance
+export const oidcService = new OidcService();
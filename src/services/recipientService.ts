@@ -0,0 +1,208 @@
+import * as jose from 'jose';
+import { database } from '../utils/database';
+import { assertValidJwksUri, RemoteJwksCache } from '../utils/remoteJwks';
+import { EncryptionRecipientModel } from '../models/EncryptionRecipient';
+import { keyService, SUPPORTED_ENCRYPTION_ALGORITHMS } from './keyService';
+import { ContentEncryptionAlgorithm, EncryptionAlgorithm, EncryptionRecipient } from '../types';
+
+export const CONTENT_ENCRYPTION_ALGORITHMS: ContentEncryptionAlgorithm[] = [
+  'A256GCM', 'A128GCM', 'A256CBC-HS512', 'A128CBC-HS256'
+];
+
+/**
+ * Thrown when a token cannot be encrypted because the recipient has no usable encryption key
+ */
+export class RecipientKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipientKeyError';
+  }
+}
+
+export interface RecipientRegistration {
+  audience: string;
+  jwksUri?: string;
+  jwk?: jose.JWK;
+  enc?: ContentEncryptionAlgorithm;
+  encryptByDefault?: boolean;
+}
+
+/**
+ * The public key and algorithms a token is encrypted with
+ */
+export interface EncryptionTarget {
+  key: jose.KeyLike | Uint8Array;
+  kid?: string;
+  alg: EncryptionAlgorithm;
+  enc: ContentEncryptionAlgorithm;
+}
+
+export class RecipientService {
+  // Used instead of MongoDB when the database is not connected
+  private recipients = new Map<string, EncryptionRecipient>();
+  private jwks = new RemoteJwksCache();
+  private selfAudience: string;
+
+  constructor() {
+    this.selfAudience = process.env.JWT_AUDIENCE || 'jwt-generator-api';
+  }
+
+  /**
+   * Register (or replace) the encryption key source for an audience. The key is
+   * resolved immediately so a broken JWKS URI or JWK is rejected up front.
+   * Our own audience may omit the key source to use this service's encryption key.
+   */
+  async registerRecipient(registration: RecipientRegistration): Promise<EncryptionRecipient> {
+    const { audience, jwksUri, jwk } = registration;
+
+    if (jwksUri && jwk) {
+      throw new Error('Provide either jwks_uri or jwk, not both');
+    }
+    if (!jwksUri && !jwk && audience !== this.selfAudience) {
+      throw new Error('jwks_uri or jwk is required');
+    }
+    if (jwksUri) {
+      assertValidJwksUri(jwksUri);
+      this.jwks.forget(jwksUri);
+    }
+    if (jwk && jwk.d) {
+      throw new Error('jwk must be a public key');
+    }
+
+    const recipient: EncryptionRecipient = {
+      audience,
+      jwksUri,
+      jwk,
+      enc: registration.enc || 'A256GCM',
+      encryptByDefault: registration.encryptByDefault === true
+    };
+
+    await this.resolveRecipientKey(recipient);
+
+    if (database.isDbConnected()) {
+      const document = await EncryptionRecipientModel.findOneAndUpdate(
+        { audience },
+        {
+          $set: {
+            enc: recipient.enc,
+            encryptByDefault: recipient.encryptByDefault,
+            ...(jwksUri ? { jwksUri } : {}),
+            ...(jwk ? { jwk } : {})
+          },
+          $unset: {
+            ...(jwksUri ? {} : { jwksUri: 1 }),
+            ...(jwk ? {} : { jwk: 1 })
+          }
+        },
+        { upsert: true, new: true, lean: true }
+      );
+      return this.toRecipient(document!);
+    }
+
+    const now = new Date();
+    const stored = { ...recipient, createdAt: this.recipients.get(audience)?.createdAt || now, updatedAt: now };
+    this.recipients.set(audience, stored);
+    return stored;
+  }
+
+  async getRecipient(audience: string): Promise<EncryptionRecipient | undefined> {
+    if (database.isDbConnected()) {
+      const document = await EncryptionRecipientModel.findOne({ audience }).lean();
+      return document ? this.toRecipient(document) : undefined;
+    }
+    return this.recipients.get(audience);
+  }
+
+  async listRecipients(): Promise<EncryptionRecipient[]> {
+    if (database.isDbConnected()) {
+      const documents = await EncryptionRecipientModel.find().sort({ audience: 1 }).lean();
+      return documents.map(document => this.toRecipient(document));
+    }
+    return [...this.recipients.values()];
+  }
+
+  async removeRecipient(audience: string): Promise<boolean> {
+    if (database.isDbConnected()) {
+      const result = await EncryptionRecipientModel.deleteOne({ audience });
+      return result.deletedCount > 0;
+    }
+    return this.recipients.delete(audience);
+  }
+
+  /**
+   * Find the key to encrypt an audience's tokens to. Tokens for our own audience
+   * are encrypted to this service's active encryption key unless a recipient overrides it.
+   */
+  async resolveEncryptionTarget(audience: string): Promise<EncryptionTarget> {
+    const recipient = await this.getRecipient(audience);
+
+    if (!recipient) {
+      if (audience === this.selfAudience) {
+        return this.resolveRecipientKey({ audience, enc: 'A256GCM', encryptByDefault: false });
+      }
+      throw new RecipientKeyError(`No encryption recipient registered for audience ${audience}`);
+    }
+
+    return this.resolveRecipientKey(recipient);
+  }
+
+  /**
+   * Helper methods
+   */
+  private async resolveRecipientKey(recipient: EncryptionRecipient): Promise<EncryptionTarget> {
+    if (!recipient.jwksUri && !recipient.jwk) {
+      const key = keyService.getEncryptionKey();
+      if (!key) {
+        throw new RecipientKeyError('This service has no encryption key, set JWT_ENCRYPTION_ALG to create one');
+      }
+      return { key: key.publicKey, kid: key.kid, alg: key.alg as EncryptionAlgorithm, enc: recipient.enc };
+    }
+
+    const candidates = recipient.jwk ? [recipient.jwk as jose.JWK] : await this.fetchJwks(recipient.jwksUri!);
+    const jwk = candidates.find(candidate =>
+      (candidate.use === undefined || candidate.use === 'enc') &&
+      SUPPORTED_ENCRYPTION_ALGORITHMS.includes(candidate.alg as EncryptionAlgorithm) &&
+      !candidate.d
+    );
+
+    if (!jwk) {
+      throw new RecipientKeyError(
+        `No public encryption key with alg ${SUPPORTED_ENCRYPTION_ALGORITHMS.join(' or ')} found for audience ${recipient.audience}`
+      );
+    }
+
+    try {
+      return {
+        key: await jose.importJWK(jwk, jwk.alg),
+        kid: jwk.kid,
+        alg: jwk.alg as EncryptionAlgorithm,
+        enc: recipient.enc
+      };
+    } catch (error: any) {
+      throw new RecipientKeyError(`Invalid encryption key for audience ${recipient.audience}: ${error.message}`);
+    }
+  }
+
+  private async fetchJwks(jwksUri: string): Promise<jose.JWK[]> {
+    try {
+      return await this.jwks.getKeys(jwksUri);
+    } catch (error: any) {
+      throw new RecipientKeyError(error.message);
+    }
+  }
+
+  private toRecipient(document: any): EncryptionRecipient {
+    return {
+      audience: document.audience,
+      jwksUri: document.jwksUri,
+      jwk: document.jwk,
+      enc: document.enc,
+      encryptByDefault: document.encryptByDefault,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    };
+  }
+}
+
+// Singleton instance
+export const recipientService = new RecipientService();
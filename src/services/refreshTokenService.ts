@@ -0,0 +1,186 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { database } from '../utils/database';
+import { durationToSeconds } from '../utils/duration';
+import { RefreshTokenDocument, RefreshTokenModel } from '../models/RefreshToken';
+
+/**
+ * Thrown when a refresh token cannot be redeemed
+ */
+export class RefreshTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  expiresIn: number;
+  familyId: string;
+}
+
+export interface RotatedRefreshToken extends IssuedRefreshToken {
+  userId: string;
+}
+
+export class RefreshTokenService {
+  private tokenTtl: number;
+  private idleTimeout: number;
+  private sessionMaxAge: number;
+
+  constructor() {
+    this.tokenTtl = durationToSeconds(process.env.REFRESH_TOKEN_TTL || '7d', 7 * 24 * 60 * 60);
+    this.idleTimeout = durationToSeconds(process.env.REFRESH_IDLE_TIMEOUT || '', this.tokenTtl);
+    this.sessionMaxAge = durationToSeconds(process.env.REFRESH_SESSION_MAX_AGE || '30d', 30 * 24 * 60 * 60);
+  }
+
+  /**
+   * Start a new session (token family) for a user and issue its first refresh token
+   */
+  async createSession(userId: string): Promise<IssuedRefreshToken> {
+    this.assertConnected();
+
+    const now = new Date();
+    const sessionExpiresAt = new Date(now.getTime() + this.sessionMaxAge * 1000);
+    return this.issue(userId, randomUUID(), sessionExpiresAt, now);
+  }
+
+  /**
+   * Redeem a refresh token for a new one in the same family. Presenting a token
+   * that was already rotated means it has leaked, so the whole family is revoked.
+   */
+  async rotate(refreshToken: string): Promise<RotatedRefreshToken> {
+    this.assertConnected();
+
+    const tokenHash = this.hashToken(refreshToken);
+    const now = new Date();
+
+    // Claim the token atomically so two concurrent redemptions cannot both succeed
+    const claimed = await RefreshTokenModel.findOneAndUpdate(
+      { tokenHash, status: 'active' },
+      { $set: { status: 'rotated', rotatedAt: now } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      const existing = await RefreshTokenModel.findOne({ tokenHash });
+      if (!existing) {
+        throw new RefreshTokenError('Invalid refresh token');
+      }
+
+      if (existing.status === 'rotated') {
+        await this.revokeFamily(existing.familyId, 'reuse_detected');
+        console.warn(`[SECURITY] Refresh token reuse detected for user ${existing.userId}; ` +
+          `revoked token family ${existing.familyId}`);
+        throw new RefreshTokenError('Refresh token reuse detected, session revoked');
+      }
+
+      throw new RefreshTokenError('Refresh token has been revoked');
+    }
+
+    if (claimed.expiresAt.getTime() <= now.getTime() || claimed.sessionExpiresAt.getTime() <= now.getTime()) {
+      await this.revokeFamily(claimed.familyId, 'expired');
+      throw new RefreshTokenError('Refresh token has expired');
+    }
+
+    const issued = await this.issue(claimed.userId, claimed.familyId, claimed.sessionExpiresAt, now);
+    return { ...issued, userId: claimed.userId };
+  }
+
+  /**
+   * Look up a refresh token that can still be redeemed, without rotating it
+   */
+  async findActive(refreshToken: string): Promise<RefreshTokenDocument | undefined> {
+    this.assertConnected();
+
+    const existing = await RefreshTokenModel.findOne({ tokenHash: this.hashToken(refreshToken), status: 'active' });
+    if (!existing || existing.expiresAt.getTime() <= Date.now() || existing.sessionExpiresAt.getTime() <= Date.now()) {
+      return undefined;
+    }
+    return existing;
+  }
+
+  /**
+   * Whether a user's session (token family) still has a refresh token that can
+   * be redeemed, i.e. the user has not logged out and the session has not expired
+   */
+  async isSessionActive(familyId: string, userId: string): Promise<boolean> {
+    this.assertConnected();
+
+    const existing = await RefreshTokenModel.findOne({ familyId, userId, status: 'active' });
+    return !!existing && existing.expiresAt.getTime() > Date.now() && existing.sessionExpiresAt.getTime() > Date.now();
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to. When userId is given, only
+   * that user's tokens are revoked. Returns false for an unknown token.
+   */
+  async revoke(refreshToken: string, reason: string, userId?: string): Promise<boolean> {
+    this.assertConnected();
+
+    const existing = await RefreshTokenModel.findOne({ tokenHash: this.hashToken(refreshToken) });
+    if (!existing || (userId && existing.userId !== userId)) {
+      return false;
+    }
+
+    await this.revokeFamily(existing.familyId, reason);
+    return true;
+  }
+
+  /**
+   * Revoke every refresh token in a family, ending the session
+   */
+  async revokeFamily(familyId: string, reason: string): Promise<void> {
+    this.assertConnected();
+
+    await RefreshTokenModel.updateMany(
+      { familyId, status: { $ne: 'revoked' } },
+      { $set: { status: 'revoked', revokedAt: new Date(), revocationReason: reason } }
+    );
+  }
+
+  /**
+   * Helper methods
+   */
+  private async issue(
+    userId: string,
+    familyId: string,
+    sessionExpiresAt: Date,
+    now: Date
+  ): Promise<IssuedRefreshToken> {
+    const refreshToken = randomBytes(32).toString('base64url');
+
+    // A token expires at its own lifetime, after the idle timeout, or when the session ends
+    const lifetime = Math.min(this.tokenTtl, this.idleTimeout) * 1000;
+    const expiresAt = new Date(Math.min(now.getTime() + lifetime, sessionExpiresAt.getTime()));
+
+    await RefreshTokenModel.create({
+      tokenHash: this.hashToken(refreshToken),
+      familyId,
+      userId,
+      status: 'active',
+      createdAt: now,
+      expiresAt,
+      sessionExpiresAt
+    });
+
+    return {
+      refreshToken,
+      expiresIn: Math.floor((expiresAt.getTime() - now.getTime()) / 1000),
+      familyId
+    };
+  }
+
+  private hashToken(refreshToken: string): string {
+    return createHash('sha256').update(refreshToken).digest('hex');
+  }
+
+  private assertConnected(): void {
+    if (!database.isDbConnected()) {
+      throw new Error('Refresh tokens require a MongoDB connection');
+    }
+  }
+}
+
+// Singleton instance
+export const refreshTokenService = new RefreshTokenService();
@@ -0,0 +1,79 @@
+import { database } from '../utils/database';
+import { RevokedTokenModel } from '../models/RevokedToken';
+
+/**
+ * Thrown when a token's jti is on the revocation list
+ */
+export class TokenRevokedError extends Error {
+  constructor(jti: string) {
+    super(`Token ${jti} has been revoked`);
+    this.name = 'TokenRevokedError';
+  }
+}
+
+export interface TokenRevocation {
+  jti: string;
+  sub?: string;
+  // NumericDate the token expires at
+  exp: number;
+  reason?: string;
+}
+
+/**
+ * Denylist of access tokens revoked before their exp, keyed by jti.
+ * Entries only need to live until the token would have expired anyway.
+ */
+export class RevocationService {
+  // Used instead of MongoDB when the database is not connected
+  private revoked = new Map<string, number>();
+
+  async revokeToken(revocation: TokenRevocation): Promise<void> {
+    const expiresAt = new Date(revocation.exp * 1000);
+    if (expiresAt.getTime() <= Date.now()) {
+      return;
+    }
+
+    if (database.isDbConnected()) {
+      await RevokedTokenModel.updateOne(
+        { jti: revocation.jti },
+        {
+          $setOnInsert: {
+            sub: revocation.sub,
+            expiresAt,
+            revokedAt: new Date(),
+            reason: revocation.reason
+          }
+        },
+        { upsert: true }
+      );
+      return;
+    }
+
+    this.pruneExpired();
+    this.revoked.set(revocation.jti, expiresAt.getTime());
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    if (database.isDbConnected()) {
+      return (await RevokedTokenModel.exists({ jti })) !== null;
+    }
+
+    const expiresAt = this.revoked.get(jti);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  /**
+   * Helper methods
+   */
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [jti, expiresAt] of this.revoked) {
+      if (expiresAt <= now) {
+        this.revoked.delete(jti);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const revocationService = new RevocationService();
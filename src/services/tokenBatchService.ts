@@ -0,0 +1,197 @@
+import { jwtService, TokenOptions } from './jwtService';
+import { tokenPolicyService, TokenPolicyError } from './tokenPolicyService';
+
+// Request body fields accepted by batch token generation
+const ALLOWED_FIELDS = ['tokens', 'template', 'count', 'format', 'demo'];
+
+// Placeholder replaced with the token's 1-based position in the batch
+const SEQUENCE_PLACEHOLDER = /\{n\}/g;
+
+// Subject of batch tokens that do not set one
+const DEFAULT_SUBJECT = 'demo-user-{n}';
+
+const MAX_SUBJECT_LENGTH = 255;
+
+export type BatchFormat = 'json' | 'ndjson';
+
+export interface BatchItem {
+  sub: string;
+  username: string;
+  email: string;
+  options: TokenOptions;
+}
+
+export interface ParsedBatchRequest {
+  items: BatchItem[];
+  format?: BatchFormat;
+}
+
+/**
+ * One minted token, or why it could not be minted
+ */
+export interface BatchTokenResult {
+  index: number;
+  sub: string;
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number;
+  error?: string;
+}
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Mints many tokens in one request, for load and integration tests. Every item
+ * goes through the same token policy as POST /api/token/generate. Tokens come
+ * from the real issuer, so services under test accept them, unless the batch
+ * asks for demo tokens.
+ */
+export class TokenBatchService {
+  private maxBatchSize: number;
+  private concurrency: number;
+
+  constructor() {
+    this.maxBatchSize = readPositiveInt(process.env.TOKEN_BATCH_MAX_SIZE, 1000);
+    this.concurrency = readPositiveInt(process.env.TOKEN_BATCH_CONCURRENCY, 8);
+  }
+
+  /**
+   * Validate a batch request: either tokens, an array of claim sets, or a
+   * template with a count. "{n}" in sub, username and email is replaced with
+   * the token's position (from 1); sub defaults to demo-user-{n}. With demo set,
+   * the tokens come from the demo issuer.
+   * Every item is checked before any token is minted.
+   */
+  parseBatchRequest(body: Record<string, any> = {}): ParsedBatchRequest {
+    const unknownFields = Object.keys(body).filter(field => !ALLOWED_FIELDS.includes(field));
+    if (unknownFields.length > 0) {
+      throw new TokenPolicyError(`Unknown fields: ${unknownFields.join(', ')}`);
+    }
+
+    const { tokens, template, count, format, demo = false } = body;
+    if (format !== undefined && format !== 'json' && format !== 'ndjson') {
+      throw new TokenPolicyError('format must be json or ndjson');
+    }
+    if (typeof demo !== 'boolean') {
+      throw new TokenPolicyError('demo must be a boolean');
+    }
+    if ((tokens === undefined) === (template === undefined)) {
+      throw new TokenPolicyError('Provide either tokens or a template with a count');
+    }
+
+    let sources: unknown[];
+    if (tokens !== undefined) {
+      if (!Array.isArray(tokens) || tokens.length === 0) {
+        throw new TokenPolicyError('tokens must be a non-empty array of claim sets');
+      }
+      if (count !== undefined) {
+        throw new TokenPolicyError('count can only be used with a template');
+      }
+      sources = tokens;
+    } else {
+      if (!Number.isInteger(count) || count < 1) {
+        throw new TokenPolicyError('count must be a positive integer');
+      }
+      sources = [];
+    }
+
+    const size = tokens !== undefined ? sources.length : count;
+    if (size > this.maxBatchSize) {
+      throw new TokenPolicyError(`A batch can contain at most ${this.maxBatchSize} tokens`);
+    }
+    if (tokens === undefined) {
+      sources = new Array(count).fill(template);
+    }
+
+    return {
+      items: sources.map((source, index) =>
+        this.parseItem(source, index + 1, tokens !== undefined ? `tokens[${index}]` : 'template', demo)),
+      format
+    };
+  }
+
+  /**
+   * Mint the tokens, at most TOKEN_BATCH_CONCURRENCY at a time. Results are
+   * passed to onResult as they complete, so not necessarily in order; waiting
+   * in onResult (e.g. for a slow client) holds back further minting. Minting
+   * stops early once isCancelled returns true.
+   */
+  async mintBatch(
+    items: BatchItem[],
+    onResult: (result: BatchTokenResult) => Promise<void> | void,
+    isCancelled: () => boolean = () => false
+  ): Promise<void> {
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < items.length && !isCancelled()) {
+        const index = next++;
+        await onResult(await this.mint(items[index], index));
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, items.length) }, worker));
+  }
+
+  /**
+   * Helper methods
+   */
+  private async mint(item: BatchItem, index: number): Promise<BatchTokenResult> {
+    try {
+      const tokenResponse = await jwtService.generateToken(
+        { sub: item.sub, username: item.username, email: item.email },
+        item.options
+      );
+
+      return {
+        index,
+        sub: item.sub,
+        access_token: tokenResponse.access_token,
+        token_type: tokenResponse.token_type,
+        expires_in: tokenResponse.expires_in
+      };
+    } catch (error: any) {
+      return { index, sub: item.sub, error: error.message || 'Token generation failed' };
+    }
+  }
+
+  private parseItem(source: unknown, sequence: number, label: string, demo: boolean): BatchItem {
+    if (typeof source !== 'object' || source === null || Array.isArray(source)) {
+      throw new TokenPolicyError(`${label} must be an object`);
+    }
+
+    const { sub = DEFAULT_SUBJECT, ...fields } = source as Record<string, any>;
+    if (typeof sub !== 'string' || sub.length === 0 || sub.length > MAX_SUBJECT_LENGTH) {
+      throw new TokenPolicyError(`${label}: sub must be a non-empty string of at most ${MAX_SUBJECT_LENGTH} characters`);
+    }
+
+    const expand = (value: unknown) =>
+      typeof value === 'string' ? value.replace(SEQUENCE_PLACEHOLDER, String(sequence)) : value;
+
+    try {
+      const request = tokenPolicyService.parseTokenRequest({
+        ...fields,
+        ...(fields.username !== undefined ? { username: expand(fields.username) } : {}),
+        ...(fields.email !== undefined ? { email: expand(fields.email) } : {})
+      });
+
+      return {
+        sub: expand(sub) as string,
+        username: request.username,
+        email: request.email,
+        options: { ...request.options, demo }
+      };
+    } catch (error: any) {
+      if (error instanceof TokenPolicyError) {
+        throw new TokenPolicyError(`${label}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const tokenBatchService = new TokenBatchService();
@@ -0,0 +1,257 @@
+import mongoose from 'mongoose';
+import * as jose from 'jose';
+import { jwtService, SubjectClaims } from './jwtService';
+import { impersonationAuditService } from './impersonationAuditService';
+import { refreshTokenService } from './refreshTokenService';
+import { UserModel } from '../models/User';
+import { database } from '../utils/database';
+import { durationToSeconds } from '../utils/duration';
+import { ActorClaim, OAuthClient, OAuthTokenResponse, TokenConfirmation } from '../types';
+
+export const TOKEN_EXCHANGE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:token-exchange';
+
+const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+const JWT_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:jwt';
+
+// Token types accepted as subject and actor tokens, and that can be requested
+const SUPPORTED_TOKEN_TYPES = [ACCESS_TOKEN_TYPE, JWT_TOKEN_TYPE];
+
+/**
+ * Thrown when a token exchange is refused. The error code is returned as the
+ * OAuth error (RFC 8693 section 2.2.2).
+ */
+export class TokenExchangeError extends Error {
+  constructor(public errorCode: string, message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'TokenExchangeError';
+  }
+}
+
+export interface TokenExchangeRequest {
+  subjectToken: string;
+  subjectTokenType: string;
+  actorToken?: string;
+  actorTokenType?: string;
+  audience: string;
+  scope?: string;
+  requestedTokenType?: string;
+  // User ID to impersonate; the subject token must then be a login session of support staff
+  requestedSubject?: string;
+  // Keys the client proved possession of (DPoP proof, client certificate); the
+  // issued token is bound to them
+  confirmation?: TokenConfirmation;
+}
+
+const parseList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Token exchange (RFC 8693): a client trades a token it received for a token
+ * with a narrower scope for another audience. Delegation keeps the subject and
+ * records who is acting for it in the act claim; impersonation lets support
+ * staff obtain a token for a user, and is written to the impersonation audit log.
+ * Staff roles and scopes are read from the user database, never from the token.
+ */
+export class TokenExchangeService {
+  private impersonatorRoles: string[];
+  private defaultTtl: number;
+
+  constructor() {
+    this.impersonatorRoles = parseList(process.env.TOKEN_EXCHANGE_IMPERSONATOR_ROLES || 'support');
+    this.defaultTtl = durationToSeconds(process.env.JWT_EXPIRATION || '1h', 3600);
+  }
+
+  async exchange(client: OAuthClient, request: TokenExchangeRequest): Promise<OAuthTokenResponse> {
+    if (!SUPPORTED_TOKEN_TYPES.includes(request.subjectTokenType)) {
+      throw new TokenExchangeError('invalid_request', `Unsupported subject_token_type: ${request.subjectTokenType}`);
+    }
+    if (request.actorToken && !SUPPORTED_TOKEN_TYPES.includes(request.actorTokenType || '')) {
+      throw new TokenExchangeError('invalid_request', 'actor_token_type is missing or unsupported');
+    }
+    if (request.requestedTokenType && !SUPPORTED_TOKEN_TYPES.includes(request.requestedTokenType)) {
+      throw new TokenExchangeError('invalid_request', `Unsupported requested_token_type: ${request.requestedTokenType}`);
+    }
+    if (!client.exchangeAudiences.includes('*') && !client.exchangeAudiences.includes(request.audience)) {
+      throw new TokenExchangeError('invalid_target', `Client may not exchange tokens for audience ${request.audience}`);
+    }
+
+    const subject = await this.verify(client, request.subjectToken, 'subject_token', request.confirmation);
+    const actor = request.actorToken
+      ? await this.verify(client, request.actorToken, 'actor_token', request.confirmation)
+      : undefined;
+
+    // The new token cannot outlive the tokens it was exchanged for
+    const now = Math.floor(Date.now() / 1000);
+    const expiresIn = Math.min(this.defaultTtl, ...[subject, actor].filter(Boolean).map(token => token!.exp! - now));
+
+    if (request.requestedSubject) {
+      if (actor) {
+        throw new TokenExchangeError('invalid_request', 'actor_token cannot be combined with requested_subject');
+      }
+      return this.impersonate(client, request, subject, expiresIn);
+    }
+
+    const subjectScopes = typeof subject.scope === 'string' ? subject.scope.split(' ').filter(Boolean) : [];
+    const scope = this.narrowScope(subjectScopes, request.scope);
+
+    // Without an actor token, the client itself is acting for the subject
+    const act: ActorClaim = {
+      sub: actor ? actor.sub! : client.clientId,
+      ...(subject.act ? { act: subject.act as ActorClaim } : {})
+    };
+
+    const tokenResponse = await jwtService.generateToken(this.subjectClaims(subject), {
+      audience: request.audience,
+      expiresIn,
+      scope,
+      claims: { client_id: client.clientId, act },
+      confirmation: request.confirmation
+    });
+
+    return this.toResponse(tokenResponse.access_token, tokenResponse.token_type, expiresIn, scope, request);
+  }
+
+  /**
+   * Helper methods
+   */
+  private async impersonate(
+    client: OAuthClient,
+    request: TokenExchangeRequest,
+    staff: jose.JWTPayload,
+    expiresIn: number
+  ): Promise<OAuthTokenResponse> {
+    if (!client.allowImpersonation) {
+      throw new TokenExchangeError('unauthorized_client', 'Client is not allowed to impersonate users');
+    }
+    if (!database.isDbConnected()) {
+      throw new TokenExchangeError('temporarily_unavailable', 'Impersonation requires a database connection', 503);
+    }
+
+    // Only access tokens from a login session that is still active, never tokens issued to clients
+    if (typeof staff.sid !== 'string' || !(await refreshTokenService.isSessionActive(staff.sid, staff.sub!))) {
+      throw new TokenExchangeError('invalid_grant', 'subject_token does not belong to an active login session');
+    }
+
+    const staffUser = mongoose.isValidObjectId(staff.sub) ? await UserModel.findById(staff.sub) : null;
+    if (!staffUser || !staffUser.roles.some(role => this.impersonatorRoles.includes(role))) {
+      throw new TokenExchangeError('invalid_grant', 'subject_token does not belong to staff allowed to impersonate users');
+    }
+    const scope = this.narrowScope(staffUser.scopes, request.scope);
+
+    const user = mongoose.isValidObjectId(request.requestedSubject)
+      ? await UserModel.findById(request.requestedSubject)
+      : null;
+    if (!user) {
+      throw new TokenExchangeError('invalid_request', 'requested_subject is not a known user');
+    }
+
+    const tokenResponse = await jwtService.generateToken({
+      sub: user._id!.toString(),
+      username: user.username,
+      email: user.email
+    }, {
+      audience: request.audience,
+      expiresIn,
+      scope,
+      claims: { client_id: client.clientId, act: { sub: staff.sub! } },
+      confirmation: request.confirmation
+    });
+
+    await impersonationAuditService.record({
+      actorSub: staff.sub!,
+      actorUsername: staffUser.username,
+      subjectSub: user._id!.toString(),
+      subjectUsername: user.username,
+      clientId: client.clientId,
+      audience: request.audience,
+      scope,
+      jti: tokenResponse.claims!.jti as string,
+      expiresAt: new Date((tokenResponse.claims!.exp as number) * 1000)
+    });
+
+    return this.toResponse(tokenResponse.access_token, tokenResponse.token_type, expiresIn, scope, request);
+  }
+
+  /**
+   * Subject and actor tokens must be access tokens issued for this service
+   * (JWT_AUDIENCE) or for one of the audiences the client may exchange tokens
+   * for, so tokens it obtained by an earlier exchange can be exchanged again.
+   * ID tokens and tokens for other audiences are refused. A token bound to a key
+   * (cnf) is only accepted when the request proves possession of that key, with
+   * a DPoP proof or the client certificate, like a resource server would require.
+   */
+  private async verify(
+    client: OAuthClient,
+    token: string,
+    parameter: string,
+    proven?: TokenConfirmation
+  ): Promise<jose.JWTPayload> {
+    let claims: jose.JWTPayload;
+    try {
+      claims = await jwtService.verifyTokenClaims(token, {
+        audiences: client.exchangeAudiences.filter(audience => audience !== '*')
+      });
+    } catch (error: any) {
+      throw new TokenExchangeError('invalid_grant', `${parameter} is not valid: ${error.message}`);
+    }
+
+    if (!claims.sub || !claims.exp) {
+      throw new TokenExchangeError('invalid_grant', `${parameter} must have sub and exp claims`);
+    }
+
+    if (claims.cnf !== undefined) {
+      const cnf = claims.cnf as TokenConfirmation;
+      const methods = Object.keys(cnf) as (keyof TokenConfirmation)[];
+      if (methods.length === 0 || methods.some(method => !proven?.[method] || proven[method] !== cnf[method])) {
+        throw new TokenExchangeError('invalid_grant',
+          `${parameter} is bound to a key the request does not prove possession of`);
+      }
+    }
+    return claims;
+  }
+
+  /**
+   * The requested scope may only narrow the scopes available to the subject:
+   * the subject token's scope, or the staff user's scopes when impersonating.
+   * Without a scope parameter all available scopes are kept.
+   */
+  private narrowScope(available: string[], scope: string | undefined): string | undefined {
+    if (scope === undefined) {
+      return available.join(' ') || undefined;
+    }
+
+    const requested = [...new Set(scope.split(' ').filter(Boolean))];
+    const exceeding = requested.filter(value => !available.includes(value));
+    if (exceeding.length > 0) {
+      throw new TokenExchangeError('invalid_scope', `Scopes not granted to the subject: ${exceeding.join(', ')}`);
+    }
+    return requested.join(' ') || undefined;
+  }
+
+  private subjectClaims(subject: jose.JWTPayload): SubjectClaims {
+    return {
+      sub: subject.sub!,
+      ...(typeof subject.username === 'string' ? { username: subject.username } : {}),
+      ...(typeof subject.email === 'string' ? { email: subject.email } : {})
+    };
+  }
+
+  private toResponse(
+    accessToken: string,
+    tokenType: string,
+    expiresIn: number,
+    scope: string | undefined,
+    request: TokenExchangeRequest
+  ): OAuthTokenResponse {
+    return {
+      access_token: accessToken,
+      issued_token_type: request.requestedTokenType || ACCESS_TOKEN_TYPE,
+      token_type: tokenType,
+      expires_in: expiresIn,
+      scope
+    };
+  }
+}
+
+// Singleton instance
+export const tokenExchangeService = new TokenExchangeService();
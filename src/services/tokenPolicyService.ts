@@ -0,0 +1,226 @@
+import { durationToSeconds } from '../utils/duration';
+import type { TokenOptions } from './jwtService';
+
+// Request body fields accepted by token generation
+const ALLOWED_FIELDS = ['username', 'email', 'aud', 'expires_in', 'nbf', 'scope', 'roles', 'claims', 'encrypt'];
+
+// Claims set by the service that extra claims can never override
+const BUILT_IN_RESERVED_CLAIMS = [
+  'iss', 'sub', 'aud', 'exp', 'nbf', 'iat', 'jti', 'username', 'email', 'scope', 'roles', 'cnf', 'client_id', 'nonce',
+  'act', 'sid', 'at_hash'
+];
+
+// Upper bound on the serialized size of extra claims, in bytes
+const MAX_EXTRA_CLAIMS_SIZE = 4096;
+
+const DURATION_PATTERN = /^\d+[smhd]?$/;
+
+/**
+ * Thrown when a token request violates the token policy
+ */
+export class TokenPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenPolicyError';
+  }
+}
+
+export interface ParsedTokenRequest {
+  username: string;
+  email: string;
+  options: TokenOptions;
+}
+
+const parseList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Validates caller-supplied token options against the configured bounds:
+ * allowed audiences, maximum lifetime, and which extra claims may be set.
+ */
+export class TokenPolicyService {
+  private allowedAudiences: string[];
+  private allowedClaims: string[];
+  private reservedClaims: string[];
+  private defaultTtl: number;
+  private maxTtl: number;
+
+  constructor() {
+    const defaultAudience = process.env.JWT_AUDIENCE || 'jwt-generator-api';
+    this.allowedAudiences = parseList(process.env.TOKEN_ALLOWED_AUDIENCES);
+    if (this.allowedAudiences.length === 0) {
+      this.allowedAudiences = [defaultAudience];
+    }
+
+    this.allowedClaims = parseList(process.env.TOKEN_ALLOWED_CLAIMS);
+    this.reservedClaims = [...BUILT_IN_RESERVED_CLAIMS, ...parseList(process.env.TOKEN_RESERVED_CLAIMS)];
+    this.defaultTtl = durationToSeconds(process.env.JWT_EXPIRATION || '1h', 3600);
+    this.maxTtl = Math.max(durationToSeconds(process.env.TOKEN_MAX_TTL || '', this.defaultTtl), this.defaultTtl);
+  }
+
+  /**
+   * Longest lifetime a token can be issued with, in seconds
+   */
+  getMaxTtl(): number {
+    return this.maxTtl;
+  }
+
+  /**
+   * Validate a token generation request body and convert it to token options
+   */
+  parseTokenRequest(body: Record<string, any> = {}): ParsedTokenRequest {
+    const unknownFields = Object.keys(body).filter(field => !ALLOWED_FIELDS.includes(field));
+    if (unknownFields.length > 0) {
+      throw new TokenPolicyError(`Unknown fields: ${unknownFields.join(', ')}`);
+    }
+
+    const { username = 'demo-user', email = 'demo@example.com', encrypt } = body;
+
+    if (typeof username !== 'string' || typeof email !== 'string') {
+      throw new TokenPolicyError('username and email must be strings');
+    }
+    if (encrypt !== undefined && typeof encrypt !== 'boolean') {
+      throw new TokenPolicyError('encrypt must be a boolean');
+    }
+
+    const expiresIn = this.parseTtl(body.expires_in);
+
+    return {
+      username,
+      email,
+      options: {
+        audience: this.parseAudience(body.aud),
+        expiresIn,
+        notBefore: this.parseNotBefore(body.nbf, expiresIn ?? this.defaultTtl),
+        scope: this.parseScope(body.scope),
+        roles: this.parseRoles(body.roles),
+        claims: this.parseClaims(body.claims),
+        encrypt
+      }
+    };
+  }
+
+  /**
+   * Helper methods
+   */
+  private parseAudience(aud: unknown): string | string[] | undefined {
+    if (aud === undefined) {
+      return undefined;
+    }
+
+    const audiences = Array.isArray(aud) ? aud : [aud];
+    if (audiences.length === 0 || audiences.some(value => typeof value !== 'string' || !value)) {
+      throw new TokenPolicyError('aud must be a non-empty string or array of strings');
+    }
+
+    if (!this.allowedAudiences.includes('*')) {
+      const disallowed = audiences.filter(value => !this.allowedAudiences.includes(value));
+      if (disallowed.length > 0) {
+        throw new TokenPolicyError(`aud not allowed: ${disallowed.join(', ')}`);
+      }
+    }
+
+    return Array.isArray(aud) ? audiences : aud as string;
+  }
+
+  private parseTtl(expiresIn: unknown): number | undefined {
+    if (expiresIn === undefined) {
+      return undefined;
+    }
+
+    const seconds = this.parseSeconds(expiresIn, 'expires_in');
+    if (seconds <= 0) {
+      throw new TokenPolicyError('expires_in must be positive');
+    }
+    if (seconds > this.maxTtl) {
+      throw new TokenPolicyError(`expires_in must not exceed ${this.maxTtl} seconds`);
+    }
+    return seconds;
+  }
+
+  /**
+   * nbf is either a NumericDate or a duration relative to now (e.g. "5m"),
+   * and must fall before the token expires
+   */
+  private parseNotBefore(nbf: unknown, ttl: number): number | undefined {
+    if (nbf === undefined) {
+      return undefined;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const notBefore = typeof nbf === 'number' ? nbf : now + this.parseSeconds(nbf, 'nbf');
+
+    if (!Number.isInteger(notBefore) || notBefore < 0) {
+      throw new TokenPolicyError('nbf must be a NumericDate or a duration such as "5m"');
+    }
+    if (notBefore >= now + ttl) {
+      throw new TokenPolicyError('nbf must be before the token expires');
+    }
+    return notBefore;
+  }
+
+  private parseScope(scope: unknown): string | undefined {
+    if (scope === undefined) {
+      return undefined;
+    }
+
+    const scopes = Array.isArray(scope) ? scope : typeof scope === 'string' ? scope.split(' ') : null;
+    if (!scopes || scopes.some(value => typeof value !== 'string' || /\s/.test(value))) {
+      throw new TokenPolicyError('scope must be a space-delimited string or an array of strings');
+    }
+    return scopes.filter(Boolean).join(' ');
+  }
+
+  private parseRoles(roles: unknown): string[] | undefined {
+    if (roles === undefined) {
+      return undefined;
+    }
+
+    if (!Array.isArray(roles) || roles.some(role => typeof role !== 'string' || !role)) {
+      throw new TokenPolicyError('roles must be an array of strings');
+    }
+    return roles;
+  }
+
+  private parseClaims(claims: unknown): Record<string, unknown> | undefined {
+    if (claims === undefined) {
+      return undefined;
+    }
+
+    if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) {
+      throw new TokenPolicyError('claims must be an object');
+    }
+
+    const names = Object.keys(claims);
+    const reserved = names.filter(name => this.reservedClaims.includes(name));
+    if (reserved.length > 0) {
+      throw new TokenPolicyError(`Reserved claims cannot be set: ${reserved.join(', ')}`);
+    }
+
+    if (this.allowedClaims.length > 0) {
+      const disallowed = names.filter(name => !this.allowedClaims.includes(name));
+      if (disallowed.length > 0) {
+        throw new TokenPolicyError(`Claims not allowed: ${disallowed.join(', ')}`);
+      }
+    }
+
+    if (Buffer.byteLength(JSON.stringify(claims)) > MAX_EXTRA_CLAIMS_SIZE) {
+      throw new TokenPolicyError(`claims must not exceed ${MAX_EXTRA_CLAIMS_SIZE} bytes`);
+    }
+
+    return claims as Record<string, unknown>;
+  }
+
+  private parseSeconds(value: unknown, field: string): number {
+    if (typeof value === 'number' && Number.isInteger(value)) {
+      return value;
+    }
+    if (typeof value === 'string' && DURATION_PATTERN.test(value.trim())) {
+      return durationToSeconds(value);
+    }
+    throw new TokenPolicyError(`${field} must be a number of seconds or a duration such as "15m"`);
+  }
+}
+
+// Singleton instance
+export const tokenPolicyService = new TokenPolicyService();
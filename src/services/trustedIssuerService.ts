@@ -0,0 +1,199 @@
+import * as jose from 'jose';
+import { readSecret } from '../utils/secrets';
+import { assertValidJwksUri, JWKS_CACHE_TTL_MS, RemoteJwksCache } from '../utils/remoteJwks';
+import { MappedClaim, TrustedIssuer } from '../types';
+
+// Asymmetric algorithms a trusted issuer may sign with
+export const TRUSTED_ISSUER_ALGORITHMS = [
+  'RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA'
+];
+
+const MAPPED_CLAIMS: MappedClaim[] = ['sub', 'username', 'email', 'roles', 'scope'];
+
+// Minimum time between refetches for an unknown kid, so tokens with made-up
+// kids cannot make us hammer the issuer
+const JWKS_REFRESH_COOLDOWN_MS = 30 * 1000;
+
+/**
+ * Verification of tokens from other identity providers listed in
+ * TRUSTED_ISSUERS. Remote JWKS are cached, refetched when a token names an
+ * unknown kid (the issuer may have rotated keys), and kept in use while the
+ * issuer is unreachable.
+ */
+export class TrustedIssuerService {
+  private issuers = new Map<string, TrustedIssuer>();
+  private jwks = new RemoteJwksCache();
+
+  constructor() {
+    const config = readSecret('TRUSTED_ISSUERS');
+    if (!config) {
+      return;
+    }
+
+    let entries: unknown;
+    try {
+      entries = JSON.parse(config);
+    } catch {
+      throw new Error('TRUSTED_ISSUERS must be a JSON array');
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error('TRUSTED_ISSUERS must be a JSON array');
+    }
+
+    const ownIssuer = process.env.JWT_ISSUER || 'jwt-generator-app';
+    const defaultAudience = process.env.JWT_AUDIENCE || 'jwt-generator-api';
+    for (const entry of entries) {
+      const issuer = this.parseIssuer(entry, defaultAudience);
+      if (issuer.issuer === ownIssuer || this.issuers.has(issuer.issuer)) {
+        throw new Error(`TRUSTED_ISSUERS lists ${issuer.issuer} more than once or as this service's own issuer`);
+      }
+      this.issuers.set(issuer.issuer, issuer);
+    }
+  }
+
+  /**
+   * The trusted issuer with this iss, if any
+   */
+  getIssuer(iss: string | undefined): TrustedIssuer | undefined {
+    return iss ? this.issuers.get(iss) : undefined;
+  }
+
+  listIssuers(): TrustedIssuer[] {
+    return [...this.issuers.values()];
+  }
+
+  /**
+   * Verify a token from a trusted issuer and return its claims, with the
+   * issuer's claim mappings applied
+   */
+  async verifyToken(token: string, issuer: TrustedIssuer): Promise<jose.JWTPayload> {
+    const { payload } = await jose.jwtVerify(token, this.keyResolver(issuer), {
+      issuer: issuer.issuer,
+      audience: issuer.audiences,
+      algorithms: issuer.algorithms
+    });
+
+    return this.mapClaims(payload, issuer);
+  }
+
+  /**
+   * Helper methods
+   */
+  private keyResolver(issuer: TrustedIssuer) {
+    return async (header: jose.JWTHeaderParameters, token: jose.FlattenedJWSInput): Promise<jose.KeyLike | Uint8Array> => {
+      const keys = await this.getKeys(issuer);
+      try {
+        return await jose.createLocalJWKSet({ keys })(header, token);
+      } catch (error) {
+        if (!(error instanceof jose.errors.JWKSNoMatchingKey) || !issuer.jwksUri) {
+          throw error;
+        }
+      }
+
+      // An unknown kid usually means the issuer rotated keys since our last fetch
+      const refreshed = await this.getKeys(issuer, { refresh: true });
+      return jose.createLocalJWKSet({ keys: refreshed })(header, token);
+    };
+  }
+
+  private async getKeys(issuer: TrustedIssuer, { refresh = false } = {}): Promise<jose.JWK[]> {
+    if (!issuer.jwksUri) {
+      return issuer.jwks!.keys as jose.JWK[];
+    }
+
+    // Keep verifying with the keys we have while the issuer is unreachable
+    return this.jwks.getKeys(issuer.jwksUri, {
+      maxAge: refresh ? JWKS_REFRESH_COOLDOWN_MS : JWKS_CACHE_TTL_MS,
+      staleIfError: true
+    });
+  }
+
+  /**
+   * Copy mapped claims to the names our tokens use. Roles may be an array or a
+   * space- or comma-separated string; an array of scopes is joined with spaces.
+   */
+  private mapClaims(payload: jose.JWTPayload, issuer: TrustedIssuer): jose.JWTPayload {
+    const mapped: jose.JWTPayload = { ...payload };
+
+    for (const claim of MAPPED_CLAIMS) {
+      const source = issuer.claimMappings[claim];
+      if (!source) {
+        continue;
+      }
+
+      const value = this.readClaim(payload, source);
+      if (claim === 'roles') {
+        mapped.roles = typeof value === 'string' ? value.split(/[\s,]+/).filter(Boolean) : value;
+      } else if (claim === 'scope') {
+        mapped.scope = Array.isArray(value) ? value.join(' ') : value;
+      } else {
+        mapped[claim] = value;
+      }
+    }
+
+    return mapped;
+  }
+
+  /**
+   * Read a claim by name, or by a dotted path into nested claims
+   * (e.g. realm_access.roles)
+   */
+  private readClaim(payload: jose.JWTPayload, path: string): any {
+    if (path in payload) {
+      return payload[path];
+    }
+    return path.split('.').reduce<any>(
+      (value, key) => value !== null && typeof value === 'object' ? value[key] : undefined,
+      payload
+    );
+  }
+
+  private parseIssuer(entry: any, defaultAudience: string): TrustedIssuer {
+    if (!entry || typeof entry !== 'object' || typeof entry.issuer !== 'string' || !entry.issuer) {
+      throw new Error('Each TRUSTED_ISSUERS entry needs an issuer');
+    }
+    const name = entry.issuer;
+
+    if (!entry.jwks_uri === !entry.jwks) {
+      throw new Error(`Trusted issuer ${name} needs either jwks_uri or jwks`);
+    }
+    if (entry.jwks_uri !== undefined) {
+      assertValidJwksUri(entry.jwks_uri, `Trusted issuer ${name} jwks_uri`);
+    }
+    if (entry.jwks !== undefined &&
+      (!Array.isArray(entry.jwks.keys) || entry.jwks.keys.some((key: any) => !key || typeof key !== 'object' || key.d))) {
+      throw new Error(`Trusted issuer ${name} jwks must be a JWK Set of public keys`);
+    }
+
+    const algorithms = entry.algorithms ?? ['RS256'];
+    if (!Array.isArray(algorithms) || algorithms.length === 0 ||
+      algorithms.some(alg => !TRUSTED_ISSUER_ALGORITHMS.includes(alg))) {
+      throw new Error(`Trusted issuer ${name} algorithms must be some of ${TRUSTED_ISSUER_ALGORITHMS.join(', ')}`);
+    }
+
+    const audiences = entry.audiences ?? [defaultAudience];
+    if (!Array.isArray(audiences) || audiences.length === 0 ||
+      audiences.some(audience => typeof audience !== 'string' || !audience)) {
+      throw new Error(`Trusted issuer ${name} audiences must be a non-empty array of strings`);
+    }
+
+    const claimMappings = entry.claim_mappings ?? {};
+    if (typeof claimMappings !== 'object' || Array.isArray(claimMappings) ||
+      Object.entries(claimMappings).some(([claim, source]) =>
+        !MAPPED_CLAIMS.includes(claim as MappedClaim) || typeof source !== 'string' || !source)) {
+      throw new Error(`Trusted issuer ${name} claim_mappings may only map ${MAPPED_CLAIMS.join(', ')} to claim names`);
+    }
+
+    return {
+      issuer: name,
+      jwksUri: entry.jwks_uri,
+      jwks: entry.jwks,
+      algorithms,
+      audiences,
+      claimMappings
+    };
+  }
+}
+
+// Singleton instance
+export const trustedIssuerService = new TrustedIssuerService();
@@ -3,6 +3,8 @@ export interface User {
   username: string;
   email: string;
   password: string;
+  roles?: string[];
+  scopes?: string[];
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -10,6 +12,7 @@ export interface User {
 export interface UserLoginRequest {
   username: string;
   password: string;
+  encrypt?: boolean;
 }
 
 export interface UserRegisterRequest {
@@ -26,6 +29,20 @@ export interface JWTPayload {
   exp?: number;
   iss?: string;
   aud?: string;
+  jti?: string;
+  scope?: string;
+  roles?: string[];
+  // Confirmation claim of sender-constrained tokens
+  cnf?: TokenConfirmation;
+}
+
+/**
+ * The cnf claim binding a token to a key (RFC 7800): a DPoP key thumbprint
+ * (RFC 9449 section 6) or a client certificate thumbprint (RFC 8705 section 3.1)
+ */
+export interface TokenConfirmation {
+  jkt?: string;
+  'x5t#S256'?: string;
 }
 
 export interface JWKSKey {
@@ -34,8 +51,201 @@ export interface JWKSKey {
   key_ops: string[];
   alg: string;
   kid: string;
-  n: string;
-  e: string;
+  // RSA keys
+  n?: string;
+  e?: string;
+  // EC and OKP keys
+  crv?: string;
+  x?: string;
+  y?: string;
+  // X.509 certificate chain and thumbprints
+  x5c?: string[];
+  x5t?: string;
+  'x5t#S256'?: string;
+}
+
+export type KeyStatus = 'pending' | 'active' | 'retiring' | 'retired' | 'revoked';
+
+export type SigningAlgorithm = 'RS256' | 'PS256' | 'ES256' | 'ES384' | 'EdDSA';
+
+export type EncryptionAlgorithm = 'RSA-OAEP-256' | 'ECDH-ES';
+
+export type KeyAlgorithm = SigningAlgorithm | EncryptionAlgorithm;
+
+export type KeyUse = 'sig' | 'enc';
+
+/**
+ * A signing or encryption key held in the keyring, with its lifecycle state
+ */
+export interface ManagedKey {
+  kid: string;
+  use: KeyUse;
+  alg: KeyAlgorithm;
+  status: KeyStatus;
+  privateKey: any;
+  publicKey: any;
+  certificate?: string;
+  createdAt: Date;
+  activatedAt?: Date;
+  retiringAt?: Date;
+  retiredAt?: Date;
+  revokedAt?: Date;
+  revocationReason?: string;
+}
+
+/**
+ * Serialized form of a ManagedKey as written to the keyring file
+ */
+export interface StoredKey {
+  kid: string;
+  // Absent for keys stored before encryption keys were supported, which are all signing keys
+  use?: KeyUse;
+  alg: KeyAlgorithm;
+  status: KeyStatus;
+  privateKey: string;
+  publicKey: string;
+  certificate?: string;
+  createdAt: string;
+  activatedAt?: string;
+  retiringAt?: string;
+  retiredAt?: string;
+  revokedAt?: string;
+  revocationReason?: string;
+}
+
+export type ContentEncryptionAlgorithm = 'A128GCM' | 'A256GCM' | 'A128CBC-HS256' | 'A256CBC-HS512';
+
+/**
+ * A token audience whose access tokens can be encrypted to its public key.
+ * The key comes from the recipient's JWKS or an uploaded public JWK.
+ */
+export interface EncryptionRecipient {
+  audience: string;
+  jwksUri?: string;
+  jwk?: Record<string, any>;
+  enc: ContentEncryptionAlgorithm;
+  encryptByDefault: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Another identity provider whose tokens are accepted. Its keys come from a
+ * remote JWKS or an inline JWK Set; claim mappings name the issuer's claims
+ * that hold our token fields, e.g. { username: 'preferred_username' }.
+ */
+export interface TrustedIssuer {
+  issuer: string;
+  jwksUri?: string;
+  jwks?: { keys: Record<string, any>[] };
+  algorithms: string[];
+  audiences: string[];
+  claimMappings: Partial<Record<MappedClaim, string>>;
+}
+
+// Token fields that can be read from differently named claims of a trusted issuer
+export type MappedClaim = 'sub' | 'username' | 'email' | 'roles' | 'scope';
+
+/**
+ * A client allowed to call the OAuth endpoints. Only a SHA-256 hash of the
+ * client secret is kept; the secret is shown once when the client is registered.
+ * Public clients (SPAs, native apps) have no secret and must use PKCE.
+ */
+export interface OAuthClient {
+  clientId: string;
+  clientSecretHash?: string;
+  isPublic: boolean;
+  name?: string;
+  // Exact redirect URIs accepted by /authorize
+  redirectUris: string[];
+  // Grants the client may use at POST /token
+  grantTypes: string[];
+  // Scopes the client may request
+  scopes: string[];
+  // Audiences the client may exchange tokens for ("*" for any)
+  exchangeAudiences: string[];
+  // Whether support staff may impersonate users through this client
+  allowImpersonation: boolean;
+  // Set for clients that authenticate with a TLS client certificate instead of a secret
+  tokenEndpointAuthMethod?: 'tls_client_auth' | 'self_signed_tls_client_auth';
+  // tls_client_auth: subject DN of the client's CA-issued certificate
+  tlsClientAuthSubjectDn?: string;
+  // self_signed_tls_client_auth: SHA-256 thumbprints of the registered certificates
+  tlsClientCertificateThumbprints: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * The act claim (RFC 8693 section 4.1): the current actor, with the actors
+ * before it nested inside
+ */
+export interface ActorClaim {
+  sub: string;
+  act?: ActorClaim;
+}
+
+/**
+ * Audit record of support staff impersonating a user through token exchange
+ */
+export interface ImpersonationEvent {
+  actorSub: string;
+  actorUsername?: string;
+  subjectSub: string;
+  subjectUsername?: string;
+  clientId: string;
+  audience: string;
+  scope?: string;
+  jti: string;
+  expiresAt: Date;
+  createdAt?: Date;
+}
+
+/**
+ * Successful response from the OAuth token endpoint (RFC 6749 section 5.1)
+ */
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  scope?: string;
+  id_token?: string;
+  // Token exchange (RFC 8693 section 2.2.1)
+  issued_token_type?: string;
+}
+
+/**
+ * Device authorization response (RFC 8628 section 3.2)
+ */
+export interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete: string;
+  expires_in: number;
+  interval: number;
+}
+
+/**
+ * Token introspection response (RFC 7662 section 2.2)
+ */
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  // Who is acting for the subject (token exchange)
+  act?: ActorClaim;
+  // Key the token is bound to
+  cnf?: TokenConfirmation;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  sub?: string;
+  aud?: string | string[];
+  iss?: string;
+  jti?: string;
 }
 
 export interface JWKS {
@@ -46,6 +256,52 @@ export interface TokenResponse {
   access_token: string;
   token_type: string;
   expires_in: number;
+  // Effective claims of the issued token
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Token response for a user session, with a refresh token to obtain new access tokens
+ */
+export interface SessionTokenResponse extends TokenResponse {
+  refresh_token: string;
+  refresh_expires_in: number;
+}
+
+export type FindingSeverity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * One issue found by the token security audit (POST /api/token/analyze)
+ */
+export interface TokenFinding {
+  // Stable identifier of the check, e.g. alg_none or missing_exp
+  id: string;
+  severity: FindingSeverity;
+  message: string;
+  // Header parameter or claim the finding is about
+  field?: string;
+}
+
+export interface TokenAnalysisReport {
+  format: 'JWS' | 'JWE';
+  // Header of the signed token, or of the JWE when it cannot be decrypted
+  header: Record<string, unknown>;
+  // Header of the JWE wrapping a nested token we could decrypt
+  encryption_header?: Record<string, unknown>;
+  // Null when the token is encrypted to a key we do not hold
+  payload: Record<string, unknown> | null;
+  signature: {
+    verified: boolean;
+    // Which keys the signature was checked against
+    key_source?: 'service_jwks' | 'supplied_jwks';
+    kid?: string;
+    error?: string;
+  };
+  findings: TokenFinding[];
+  summary: {
+    highest_severity: FindingSeverity | 'none';
+    counts: Record<FindingSeverity, number>;
+  };
 }
 
 export interface ApiResponse<T = any> {
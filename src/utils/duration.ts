@@ -0,0 +1,24 @@
+/**
+ * Convert a duration string such as "30s", "15m", "1h" or "90d" to seconds.
+ * Plain numbers are treated as seconds.
+ */
+export const durationToSeconds = (duration: string, fallback: number = 3600): number => {
+  const timeValue = parseInt(duration);
+  if (isNaN(timeValue)) {
+    return fallback;
+  }
+
+  if (/^\d+$/.test(duration.trim())) {
+    return timeValue;
+  }
+
+  const timeUnit = duration.trim().slice(-1).toLowerCase();
+
+  switch (timeUnit) {
+    case 's': return timeValue;
+    case 'm': return timeValue * 60;
+    case 'h': return timeValue * 60 * 60;
+    case 'd': return timeValue * 24 * 60 * 60;
+    default: return fallback;
+  }
+};
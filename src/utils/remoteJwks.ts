@@ -0,0 +1,107 @@
+import * as jose from 'jose';
+
+// How long a remote JWKS is reused before it is fetched again
+export const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const JWKS_FETCH_TIMEOUT_MS = 5000;
+
+/**
+ * Thrown when a remote JWKS cannot be fetched
+ */
+export class JwksFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwksFetchError';
+  }
+}
+
+/**
+ * Check that a jwks_uri is an absolute https URL (plain http is allowed on
+ * localhost, for development). The name prefixes the error messages.
+ */
+export const assertValidJwksUri = (uri: unknown, name: string = 'jwks_uri'): void => {
+  let url: URL;
+  try {
+    url = new URL(uri as string);
+  } catch {
+    throw new Error(`${name} must be an absolute URL`);
+  }
+
+  const isLocalhost = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocalhost)) {
+    throw new Error(`${name} must use https`);
+  }
+};
+
+/**
+ * Cache of remote JWK Sets, by URI. Concurrent fetches of the same JWKS share
+ * one request, and fetches time out after a few seconds.
+ */
+export class RemoteJwksCache {
+  private cache = new Map<string, { keys: jose.JWK[]; fetchedAt: number }>();
+  private pendingFetches = new Map<string, Promise<jose.JWK[]>>();
+
+  /**
+   * The keys of a JWKS, fetched again once the cached copy is older than maxAge.
+   * With staleIfError, a failed fetch falls back to the cached copy, if any.
+   */
+  async getKeys(jwksUri: string, { maxAge = JWKS_CACHE_TTL_MS, staleIfError = false } = {}): Promise<jose.JWK[]> {
+    const cached = this.cache.get(jwksUri);
+    if (cached && Date.now() - cached.fetchedAt < maxAge) {
+      return cached.keys;
+    }
+
+    try {
+      return await this.fetchJwks(jwksUri);
+    } catch (error) {
+      if (cached && staleIfError) {
+        console.warn(`Using cached JWKS from ${jwksUri}: ${(error as Error).message}`);
+        return cached.keys;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drop the cached copy of a JWKS, so the next lookup fetches it
+   */
+  forget(jwksUri: string): void {
+    this.cache.delete(jwksUri);
+  }
+
+  /**
+   * Helper methods
+   */
+  private fetchJwks(jwksUri: string): Promise<jose.JWK[]> {
+    let pending = this.pendingFetches.get(jwksUri);
+    if (!pending) {
+      pending = this.downloadJwks(jwksUri).finally(() => this.pendingFetches.delete(jwksUri));
+      this.pendingFetches.set(jwksUri, pending);
+    }
+    return pending;
+  }
+
+  private async downloadJwks(jwksUri: string): Promise<jose.JWK[]> {
+    let keys: jose.JWK[];
+    try {
+      const response = await fetch(jwksUri, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const body = await response.json() as { keys?: jose.JWK[] };
+      if (!Array.isArray(body.keys)) {
+        throw new Error('response is not a JWK Set');
+      }
+      keys = body.keys;
+    } catch (error: any) {
+      throw new JwksFetchError(`Failed to fetch JWKS from ${jwksUri}: ${error.message}`);
+    }
+
+    this.cache.set(jwksUri, { keys, fetchedAt: Date.now() });
+    return keys;
+  }
+}
@@ -0,0 +1,19 @@
+import * as fs from 'fs';
+
+/**
+ * Read a secret from an environment variable, or from the file named by the
+ * same variable with a `_FILE` suffix (e.g. Docker or Kubernetes secrets).
+ */
+export const readSecret = (name: string): string | undefined => {
+  const filePath = process.env[`${name}_FILE`];
+
+  if (filePath) {
+    try {
+      return fs.readFileSync(filePath, 'utf8').replace(/\r?\n$/, '');
+    } catch (error) {
+      throw new Error(`Failed to read ${name}_FILE at ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  return process.env[name] || undefined;
+};
@@ -0,0 +1,127 @@
+import { Response } from 'express';
+
+/**
+ * Server-rendered pages for the browser-facing OAuth endpoints
+ */
+
+export interface LoginPageOptions {
+  // Where the form posts back to
+  action: string;
+  clientName: string;
+  scopes: string[];
+  // Authorization request parameters carried through the form
+  hiddenFields: Record<string, string | undefined>;
+  username?: string;
+  error?: string;
+  // Shown under the heading, e.g. the code the user is approving
+  note?: string;
+  // Defaults to "Sign in"
+  submitLabel?: string;
+  // Adds a second button that submits decision=deny instead of decision=approve
+  denyLabel?: string;
+}
+
+export interface UserCodePageOptions {
+  userCode?: string;
+  error?: string;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const layout = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background: #f4f5f7; margin: 0; }
+    main { max-width: 360px; margin: 10vh auto; background: #fff; padding: 32px; border-radius: 8px; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.15); }
+    h1 { font-size: 1.25rem; margin-top: 0; }
+    label { display: block; margin: 16px 0 4px; font-size: 0.9rem; }
+    input[type=text], input[type=password] { width: 100%; box-sizing: border-box; padding: 8px; border: 1px solid #ccc; border-radius: 4px; }
+    button { margin-top: 24px; width: 100%; padding: 10px; border: 0; border-radius: 4px; background: #2563eb; color: #fff; font-size: 1rem; cursor: pointer; }
+    .error { color: #b91c1c; }
+    .scopes { font-size: 0.9rem; color: #555; }
+    button.secondary { margin-top: 8px; background: #e5e7eb; color: #111; }
+  </style>
+</head>
+<body>
+  <main>
+${body}
+  </main>
+</body>
+</html>`;
+
+export const renderLoginPage = (options: LoginPageOptions): string => {
+  const hiddenFields = Object.entries(options.hiddenFields)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `      <input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value!)}">`)
+    .join('\n');
+
+  const scopes = options.scopes.length > 0
+    ? `    <p class="scopes">Requested access: ${options.scopes.map(escapeHtml).join(', ')}</p>\n`
+    : '';
+  const error = options.error ? `    <p class="error">${escapeHtml(options.error)}</p>\n` : '';
+  const note = options.note ? `    <p class="scopes">${escapeHtml(options.note)}</p>\n` : '';
+  const submitLabel = escapeHtml(options.submitLabel || 'Sign in');
+  const buttons = options.denyLabel
+    ? `      <button type="submit" name="decision" value="approve">${submitLabel}</button>
+      <button type="submit" name="decision" value="deny" class="secondary">${escapeHtml(options.denyLabel)}</button>`
+    : `      <button type="submit">${submitLabel}</button>`;
+
+  return layout('Sign in', `    <h1>Sign in to continue to ${escapeHtml(options.clientName)}</h1>
+${note}${scopes}${error}    <form method="post" action="${escapeHtml(options.action)}">
+${hiddenFields}
+      <label for="username">Username</label>
+      <input type="text" id="username" name="username" value="${escapeHtml(options.username || '')}" autocomplete="username" required autofocus>
+      <label for="password">Password</label>
+      <input type="password" id="password" name="password" autocomplete="current-password" required>
+${buttons}
+    </form>`);
+};
+
+/**
+ * First step of the device flow: the user types in the code shown on their device
+ */
+export const renderUserCodePage = (options: UserCodePageOptions): string => {
+  const error = options.error ? `    <p class="error">${escapeHtml(options.error)}</p>\n` : '';
+
+  return layout('Connect a device', `    <h1>Connect a device</h1>
+    <p class="scopes">Enter the code shown on your device.</p>
+${error}    <form method="get" action="/device">
+      <label for="user_code">Code</label>
+      <input type="text" id="user_code" name="user_code" value="${escapeHtml(options.userCode || '')}" autocomplete="off" autocapitalize="characters" spellcheck="false" required autofocus>
+      <button type="submit">Continue</button>
+    </form>`);
+};
+
+export const renderMessagePage = (title: string, message: string): string =>
+  layout(title, `    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>`);
+
+export const renderErrorPage = (message: string): string =>
+  layout('Authorization error', `    <h1>Authorization error</h1>
+    <p class="error">${escapeHtml(message)}</p>`);
+
+/**
+ * Send a page. Its form may only post back to this server, or, when a
+ * redirectUri is given, continue to the client after a successful sign-in.
+ */
+export const sendPage = (res: Response, statusCode: number, html: string, redirectUri?: string): void => {
+  const formAction = redirectUri ? `'self' ${new URL(redirectUri).origin}` : `'self'`;
+
+  res.status(statusCode).set({
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': 'no-store',
+    'Content-Security-Policy':
+      `default-src 'none'; style-src 'unsafe-inline'; form-action ${formAction}; frame-ancestors 'none'; base-uri 'none'`,
+    'X-Frame-Options': 'DENY'
+  }).send(html);
+};